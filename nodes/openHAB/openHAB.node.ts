@@ -1,26 +1,73 @@
 import {
 	NodeApiError,
 	NodeOperationError,
+	type IBinaryKeyData,
 	type IDataObject,
 	type IExecuteFunctions,
 	type IHttpRequestOptions,
+	type ILoadOptionsFunctions,
 	type INodeExecutionData,
+	type INodeListSearchResult,
+	type INodePropertyMode,
+	type INodePropertyOptions,
 	type INodeProperties,
 	type INodeType,
 	type INodeTypeDescription,
 	type JsonObject,
 	type ICredentialDataDecryptedObject,
 } from 'n8n-workflow'
-import { getEventSource, setupOpenHABApi } from '../../util/openHABApi'
+import {
+	buildEventWebSocketConfig,
+	getEventSource,
+	parseCommaSeparatedList,
+	setupOpenHABApi,
+} from '../../util/openHABApi'
+import { watchItemState } from '../../util/stateWatcher'
+import { type BulkCommand, dispatchAll, toBulkCommands } from '../../util/bulkCommands'
+import { createScene, parseScene, planRestore, type Scene } from '../../util/scene'
+import {
+	type ConfigChange,
+	type ConfigDocument,
+	diffConfig,
+	ENTITY_TYPES,
+	type EntityType,
+	EXPORTERS,
+	isManaged,
+	parseConfigDocument,
+} from '../../util/configBackup'
+import { parseItemsDsl, renderItemsDsl, toItemPayload } from '../../util/itemsDsl'
+import { parseGroupFunction, parseItemType } from '../../util/itemTypes'
+import { mergeThingDefinition, parseThingsDsl, renderThingsDsl } from '../../util/thingsDsl'
+import { collectMembers, countMemberStates, getChangedMembers, type GroupMember } from '../../util/groups'
+import {
+	buildSemanticModel,
+	buildSemanticTree,
+	describeSemanticNode,
+	querySemanticModel,
+	type SemanticKind,
+} from '../../util/semanticModel'
+import { type ConfigDescriptionParameter, validateConfiguration } from '../../util/configDescription'
+import { convertActionInputs, type ThingActionInput } from '../../util/thingActions'
+import {
+	type CommandMode,
+	type CommandTarget,
+	type ExpectedState,
+	getExpectedState,
+	normalizeCommand,
+} from '../../util/commands'
+import { decodeState, formatState, statesMatch } from '../../util/state'
+import { computeStatistics, formatDataPoint, getDataPoints, toIsoDateTime } from '../../util/persistence'
 
 interface ApiRequestOptions {
 	plainText?: boolean;
 	fullResponse?: boolean;
 	extraHeaders?: IDataObject;
+	/** Return undefined instead of throwing when the server responds with 404 Not Found */
+	allowNotFound?: boolean;
 }
 
 async function openhabApiRequest(
-	this: IExecuteFunctions,
+	this: IExecuteFunctions | ILoadOptionsFunctions,
 	method: string,
 	path: string,
 	body: IDataObject | string = {},
@@ -91,6 +138,10 @@ async function openhabApiRequest(
 		);
 	}
 
+	if (statusCode === 404 && options.allowNotFound) {
+		return undefined;
+	}
+
 	if (statusCode < 200 || statusCode >= 300) {
 		const body = fullResponse.body;
 		const bodyMessage =
@@ -127,13 +178,827 @@ async function openhabApiRequest(
 	return fullResponse.body as IDataObject | IDataObject[] | string;
 }
 
+/**
+ * Builds the resource locator modes for items, things and rules: pick from a searchable list, enter the ID,
+ * or paste the URL of the entity's settings page in the openHAB UI (e.g. https://home.myopenhab.org/settings/items/Kitchen_Light).
+ * Entities without a settings page (settingsPath null) only get the list and ID modes.
+ */
+function buildLocatorModes(
+	settingsPath: 'items' | 'things' | 'rules' | null,
+	searchListMethod: string,
+	placeholder: string,
+): INodePropertyMode[] {
+	const listAndIdModes: INodePropertyMode[] = [
+		{
+			displayName: 'From List',
+			name: 'list',
+			type: 'list',
+			typeOptions: {
+				searchListMethod,
+				searchable: true,
+			},
+		},
+		{
+			displayName: 'By ID',
+			name: 'id',
+			type: 'string',
+			placeholder,
+		},
+	];
+	if (!settingsPath) {
+		return listAndIdModes;
+	}
+
+	const urlRegex = `https?://.+/settings/${settingsPath}/([^/?#]+)`;
+	return [
+		...listAndIdModes,
+		{
+			displayName: 'By URL',
+			name: 'url',
+			type: 'string',
+			placeholder: `http://openhab:8080/settings/${settingsPath}/${placeholder}`,
+			validation: [
+				{
+					type: 'regex',
+					properties: {
+						regex: urlRegex,
+						errorMessage: `Not a valid openHAB UI URL (expected …/settings/${settingsPath}/…)`,
+					},
+				},
+			],
+			extractValue: {
+				type: 'regex',
+				regex: urlRegex,
+			},
+		},
+	];
+}
+
+/**
+ * Returns a resource locator shown from node version 2 on, preceded by the plain string parameter that version 1
+ * had under the same name, so that workflows saved with version 1 keep the shape of their parameter values.
+ */
+function withLegacyStringParameter(
+	locator: INodeProperties,
+	legacy: Pick<INodeProperties, 'displayName' | 'description'>,
+): INodeProperties[] {
+	const show = locator.displayOptions?.show ?? {};
+	return [
+		{
+			displayName: legacy.displayName,
+			name: locator.name,
+			type: 'string',
+			required: locator.required,
+			displayOptions: { show: { ...show, '@version': [1] } },
+			default: '',
+			description: legacy.description,
+		},
+		{
+			...locator,
+			displayOptions: { show: { ...show, '@version': [{ _cnd: { gte: 2 } }] } },
+		},
+	];
+}
+
+/**
+ * Returns whether any of the given fields contains the search filter (case-insensitive).
+ */
+function matchesFilter(filter: string | undefined, ...fields: unknown[]): boolean {
+	if (!filter) {
+		return true;
+	}
+	const needle = filter.toLowerCase();
+	return fields.some((field) =>
+		Array.isArray(field)
+			? field.some((entry) => String(entry).toLowerCase().includes(needle))
+			: typeof field === 'string' && field.toLowerCase().includes(needle),
+	);
+}
+
+const ITEM_TYPES = [
+	'Call',
+	'Color',
+	'Contact',
+	'DateTime',
+	'Dimmer',
+	'Group',
+	'Image',
+	'Location',
+	'Number',
+	'Player',
+	'Rollershutter',
+	'String',
+	'Switch',
+];
+
+/**
+ * Parses a `json` node parameter, which is either already an object (when set through an expression) or a JSON string.
+ */
+function parseJsonParameter(this: IExecuteFunctions, value: unknown, parameterName: string): unknown {
+	if (typeof value !== 'string') {
+		return value;
+	}
+	try {
+		return JSON.parse(value);
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Parameter "${parameterName}" is not valid JSON: ${(error as Error).message}`,
+		);
+	}
+}
+
+/**
+ * Reads a `json` node parameter that must contain a JSON object.
+ */
+function getJsonObjectParameter(
+	this: IExecuteFunctions,
+	parameterName: string,
+	displayName: string,
+	itemIndex: number,
+): IDataObject {
+	const value = parseJsonParameter.call(this, this.getNodeParameter(parameterName, itemIndex, '{}'), displayName);
+	if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+		throw new NodeOperationError(this.getNode(), `${displayName} must be a JSON object.`, { itemIndex });
+	}
+	return value as IDataObject;
+}
+
+function toStringList(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return value.map((entry) => String(entry).trim()).filter((entry) => entry.length > 0);
+	}
+	if (typeof value === 'string') {
+		return parseCommaSeparatedList(value);
+	}
+	return [];
+}
+
+/**
+ * Reads an optional date parameter as ISO timestamp, naming the parameter if the value is not a valid date.
+ */
+function getDateTimeParameter(
+	this: IExecuteFunctions,
+	parameterName: string,
+	displayName: string,
+	itemIndex: number,
+): string | undefined {
+	try {
+		return toIsoDateTime(this.getNodeParameter(parameterName, itemIndex, ''));
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), `Invalid ${displayName}: ${(error as Error).message}`, {
+			itemIndex,
+		});
+	}
+}
+
+/**
+ * Normalizes an item definition into the payload accepted by PUT /rest/items/{itemName}. Groups take their base
+ * type and aggregation function from `groupType` and `function` (`{ "name": "OR", "params": ["ON", "OFF"] }` or
+ * `"OR(ON,OFF)"`), or from the `.items` notation in `type`, e.g. `Group:Switch:OR(ON,OFF)`.
+ */
+function buildItemDefinition(this: IExecuteFunctions, raw: IDataObject): IDataObject {
+	const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+	const rawType = typeof raw.type === 'string' ? raw.type.trim() : '';
+	if (!name || !rawType) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Item definition ${JSON.stringify(raw)} requires both "name" and "type".`,
+		);
+	}
+
+	const { type, groupType, function: groupFunction } = parseItemType(rawType);
+	const definition: IDataObject = {
+		type,
+		name,
+		label: (raw.label as string | undefined) ?? '',
+		category: (raw.category as string | undefined) ?? '',
+		groupNames: toStringList(raw.groupNames),
+		tags: toStringList(raw.tags),
+	};
+	if (type !== 'Group') {
+		return definition;
+	}
+
+	const explicitGroupType = typeof raw.groupType === 'string' ? raw.groupType.trim() : '';
+	if (explicitGroupType || groupType) {
+		definition.groupType = explicitGroupType || groupType;
+	}
+	if (typeof raw.function === 'string' && raw.function.trim()) {
+		const parsedFunction = parseGroupFunction(raw.function);
+		if (!parsedFunction) {
+			throw new NodeOperationError(this.getNode(), `Unknown aggregation function "${raw.function}" of group ${name}.`);
+		}
+		definition.function = parsedFunction;
+	} else if (raw.function && typeof raw.function === 'object' && typeof (raw.function as IDataObject).name === 'string') {
+		const { name: functionName, params } = raw.function as IDataObject;
+		definition.function = {
+			name: (functionName as string).toUpperCase(),
+			...(params !== undefined ? { params: toStringList(params) } : {}),
+		};
+	} else if (groupFunction) {
+		definition.function = groupFunction;
+	}
+	if (definition.function && !definition.groupType) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Group ${name} requires a "groupType" for its aggregation function.`,
+		);
+	}
+	return definition;
+}
+
+function isSameItemDefinition(existing: IDataObject, desired: IDataObject): boolean {
+	const sortedList = (value: unknown) => toStringList(value).sort().join(',');
+	const functionOf = (value: IDataObject) => {
+		const groupFunction = value.function as IDataObject | undefined;
+		// Groups without aggregation function are reported with EQUALITY
+		return groupFunction && groupFunction.name !== 'EQUALITY' ? `${groupFunction.name as string}(${toStringList(groupFunction.params).join(',')})` : '';
+	};
+	return (
+		existing.type === desired.type &&
+		((existing.label as string | undefined) ?? '') === desired.label &&
+		((existing.category as string | undefined) ?? '') === desired.category &&
+		sortedList(existing.groupNames) === sortedList(desired.groupNames) &&
+		sortedList(existing.tags) === sortedList(desired.tags) &&
+		((existing.groupType as string | undefined) ?? '') === ((desired.groupType as string | undefined) ?? '') &&
+		functionOf(existing) === functionOf(desired)
+	);
+}
+
+/**
+ * Creates or replaces an item. When `skipUnchanged` is set, the current definition is fetched first and the
+ * PUT is skipped if nothing differs.
+ */
+async function upsertItem(
+	this: IExecuteFunctions,
+	definition: IDataObject,
+	skipUnchanged: boolean,
+): Promise<IDataObject> {
+	const itemName = definition.name as string;
+	const path = `/items/${encodeURIComponent(itemName)}`;
+
+	if (skipUnchanged) {
+		const existing = (await openhabApiRequest.call(this, 'GET', path, {}, {}, { allowNotFound: true })) as
+			| IDataObject
+			| undefined;
+		if (existing && isSameItemDefinition(existing, definition)) {
+			return { item: itemName, action: 'unchanged' };
+		}
+	}
+
+	const res = (await openhabApiRequest.call(this, 'PUT', path, definition, {}, { fullResponse: true })) as IDataObject;
+	return {
+		item: itemName,
+		action: res.statusCode === 201 ? 'created' : 'updated',
+		statusCode: res.statusCode,
+	};
+}
+
+/**
+ * Builds the metadata payload for PUT /rest/items/{itemName}/metadata/{namespace} from the node parameters.
+ */
+function getMetadataPayload(this: IExecuteFunctions, itemIndex: number): IDataObject {
+	return {
+		value: this.getNodeParameter('metadataValue', itemIndex, '') as string,
+		config: getJsonObjectParameter.call(this, 'metadataConfig', 'Configuration', itemIndex),
+	};
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sends a command and waits until the item reaches the expected state or changes, using either the event WebSocket
+ * (subscribed before the command is sent) or polling.
+ * @returns The HTTP status of the command, the final state, the elapsed time and whether the wait timed out
+ */
+async function sendCommandAndConfirm(
+	this: IExecuteFunctions,
+	itemName: string,
+	command: string,
+	sendCommand: () => Promise<IDataObject>,
+	itemIndex: number,
+): Promise<IDataObject> {
+	let condition = this.getNodeParameter('confirmationCondition', itemIndex, 'expectedState') as string;
+	let expected: ExpectedState | null = null;
+	if (condition === 'expectedState') {
+		const expectedState = (this.getNodeParameter('expectedState', itemIndex, '') as string).trim();
+		expected = expectedState
+			? { state: expectedState, matches: (state) => statesMatch(expectedState, state) }
+			: getExpectedState(await fetchCommandTarget.call(this, itemName), command);
+		// Commands like INCREASE or STOP have no predictable state
+		condition = expected ? 'expectedState' : 'anyChange';
+	}
+	const method = this.getNodeParameter('confirmationMethod', itemIndex, 'websocket') as string;
+	const timeoutMs = (this.getNodeParameter('confirmationTimeout', itemIndex, 10) as number) * 1000;
+	const getState = async () =>
+		(await openhabApiRequest.call(this, 'GET',
+			`/items/${encodeURIComponent(itemName)}/state`,
+			{},
+			{},
+			{ plainText: true },
+		)) as string;
+
+	let confirmedState: string | null = null;
+	let res: IDataObject;
+	let startedAt: number;
+
+	if (method === 'polling') {
+		const pollInterval = this.getNodeParameter('confirmationPollInterval', itemIndex, 500) as number;
+		const initialState = expected ? null : await getState();
+		const isConfirmed = (state: string) =>
+			expected ? expected.matches(state) : state !== initialState;
+		startedAt = Date.now();
+		res = await sendCommand();
+		while (Date.now() - startedAt < timeoutMs) {
+			await sleep(Math.min(pollInterval, Math.max(0, timeoutMs - (Date.now() - startedAt))));
+			const state = await getState();
+			if (isConfirmed(state)) {
+				confirmedState = state;
+				break;
+			}
+		}
+	} else {
+		const config = await buildEventWebSocketConfig.call(this);
+		const watcher = await watchItemState(config, itemName, timeoutMs);
+		try {
+			startedAt = Date.now();
+			res = await sendCommand();
+			confirmedState = await watcher.waitFor(
+				(state) => !expected || expected.matches(state),
+				timeoutMs,
+			);
+		} finally {
+			watcher.close();
+		}
+	}
+
+	const elapsedMs = Date.now() - startedAt;
+	const finalState = confirmedState ?? (await getState());
+	// Without a change, the item may already have been in the expected state before the command
+	const timedOut =
+		confirmedState === null && (!expected || !expected.matches(finalState));
+
+	if (timedOut && (this.getNodeParameter('confirmationErrorOnTimeout', itemIndex, false) as boolean)) {
+		throw new NodeOperationError(
+			this.getNode(),
+			expected
+				? `Item ${itemName} did not reach state "${expected.state}" within ${timeoutMs / 1000} s (state: ${finalState}).`
+				: `Item ${itemName} did not change its state within ${timeoutMs / 1000} s (state: ${finalState}).`,
+			{ itemIndex },
+		);
+	}
+
+	return {
+		statusCode: res.statusCode,
+		confirmationCondition: condition,
+		...(expected ? { expectedState: expected.state } : {}),
+		finalState,
+		elapsedMs,
+		timedOut,
+	};
+}
+
+/**
+ * Builds the structured state output of an item: type, raw state, decoded value and the display state formatted with
+ * the state description pattern (or the state transformed by openHAB, if the pattern contains a transformation).
+ */
+function toStructuredState(item: IDataObject): IDataObject {
+	const state = item.state as string;
+	const type = item.type as string;
+	const baseType = type === 'Group' && item.groupType ? (item.groupType as string) : type;
+	const pattern = (item.stateDescription as IDataObject | undefined)?.pattern as string | undefined;
+	const displayState =
+		(item.transformedState as string | undefined) ?? (pattern ? formatState(pattern, state) : null) ?? state;
+	return {
+		item: item.name as string,
+		type,
+		...(item.groupType ? { groupType: item.groupType as string } : {}),
+		state,
+		...(decodeState(baseType, state) as IDataObject),
+		displayState,
+	};
+}
+
+/**
+ * Fetches the type (and unit) of an item that determine which commands it accepts.
+ */
+async function fetchCommandTarget(this: IExecuteFunctions, itemName: string): Promise<CommandTarget> {
+	const item = (await openhabApiRequest.call(this, 'GET',
+		`/items/${encodeURIComponent(itemName)}`,
+		{},
+		{},
+	)) as IDataObject;
+	return {
+		type: String(item.type ?? ''),
+		groupType: typeof item.groupType === 'string' ? item.groupType : undefined,
+		unitSymbol: typeof item.unitSymbol === 'string' ? item.unitSymbol : undefined,
+	};
+}
+
+/**
+ * Fetches the item type and validates/converts a command or state update for it.
+ */
+async function validateItemValue(
+	this: IExecuteFunctions,
+	itemName: string,
+	value: string,
+	mode: CommandMode,
+	itemIndex: number,
+): Promise<string> {
+	const target = await fetchCommandTarget.call(this, itemName);
+	try {
+		return normalizeCommand(target, value, mode);
+	} catch (error) {
+		const type = target.groupType ? `${target.type}:${target.groupType}` : target.type;
+		throw new NodeOperationError(
+			this.getNode(),
+			`Item ${itemName} (${type}) does not accept ${mode === 'command' ? 'command' : 'state'} "${value}": ${(error as Error).message}`,
+			{ itemIndex },
+		);
+	}
+}
+
+/**
+ * Collects the item/command pairs of the Send Commands (Bulk) operation from the selected source.
+ */
+async function getBulkCommands(this: IExecuteFunctions, itemIndex: number): Promise<BulkCommand[]> {
+	const bulkSource = this.getNodeParameter('bulkSource', itemIndex, 'list') as string;
+
+	if (bulkSource === 'list') {
+		const entries = this.getNodeParameter('bulkCommands.command', itemIndex, []) as IDataObject[];
+		return entries
+			.filter((entry) => String(entry.item ?? '').trim())
+			.map((entry) => ({ item: String(entry.item).trim(), command: String(entry.command ?? '') }));
+	}
+
+	if (bulkSource === 'json') {
+		const value = parseJsonParameter.call(
+			this,
+			this.getNodeParameter('bulkCommandsJson', itemIndex),
+			'Commands (JSON)',
+		);
+		try {
+			return toBulkCommands(value);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), `Invalid Commands (JSON): ${(error as Error).message}`, {
+				itemIndex,
+			});
+		}
+	}
+
+	const tagFilter = (this.getNodeParameter('bulkTagFilter', itemIndex, '') as string).trim();
+	const group = (this.getNodeParameter('bulkGroup', itemIndex, '', { extractValue: true }) as string).trim();
+	const command = this.getNodeParameter('bulkFilterCommand', itemIndex) as string;
+	if (!tagFilter && !group) {
+		throw new NodeOperationError(this.getNode(), 'Enter a tag filter or a group to select the items.', {
+			itemIndex,
+		});
+	}
+
+	return (await selectItemNames.call(this, tagFilter, group)).map((item) => ({ item, command }));
+}
+
+/**
+ * Fetches a group item with its members, including the members of nested groups if `recursive` is set.
+ */
+async function fetchGroup(this: IExecuteFunctions, groupName: string, recursive: boolean): Promise<IDataObject> {
+	return (await openhabApiRequest.call(this, 'GET',
+		`/items/${encodeURIComponent(groupName)}`,
+		{},
+		{ recursive },
+	)) as IDataObject;
+}
+
+/**
+ * Returns the names of the items with the tags and/or (recursive) members of the group.
+ */
+async function selectItemNames(this: IExecuteFunctions, tagFilter: string, group: string): Promise<string[]> {
+	let itemNames: string[] | undefined;
+	if (group) {
+		// Nested groups forward commands to their members, which are already included
+		const members = collectMembers(await fetchGroup.call(this, group, true), { recursive: true, includeGroups: false });
+		itemNames = members.map((member) => member.name);
+	}
+	if (tagFilter) {
+		const taggedItems = (await openhabApiRequest.call(this, 'GET',
+			'/items',
+			{},
+			{ tags: tagFilter, fields: 'name' },
+		)) as IDataObject[];
+		const taggedNames = taggedItems.map((item) => item.name as string);
+		itemNames = itemNames ? itemNames.filter((name) => taggedNames.includes(name)) : taggedNames;
+	}
+	return itemNames ?? [];
+}
+
+/**
+ * Fetches the managed entities of the given types, reduced to the exported format.
+ */
+async function fetchManagedConfig(
+	this: IExecuteFunctions,
+	types: EntityType[],
+): Promise<Partial<Record<EntityType, IDataObject[]>>> {
+	const config: Partial<Record<EntityType, IDataObject[]>> = {};
+	for (const type of ENTITY_TYPES.filter((entityType) => types.includes(entityType))) {
+		const entities = (await openhabApiRequest.call(this, 'GET',
+			`/${type}`,
+			{},
+			type === 'items' ? { metadata: '.*' } : {},
+		)) as IDataObject[];
+		config[type] = entities.filter(isManaged).map(EXPORTERS[type]);
+	}
+	return config;
+}
+
+/**
+ * Writes one change of a configuration import.
+ */
+async function applyConfigChange(this: IExecuteFunctions, change: ConfigChange): Promise<void> {
+	const entity = change.entity ?? {};
+	const current = change.current ?? {};
+
+	if (change.type === 'items') {
+		const itemPath = `/items/${encodeURIComponent(change.id)}`;
+		if (change.action === 'delete') {
+			await openhabApiRequest.call(this, 'DELETE', itemPath);
+			return;
+		}
+		const { metadata, ...definition } = entity;
+		await openhabApiRequest.call(this, 'PUT', itemPath, definition);
+		const desiredMetadata = (metadata as IDataObject | undefined) ?? {};
+		const currentMetadata = (current.metadata as IDataObject | undefined) ?? {};
+		for (const [namespace, payload] of Object.entries(desiredMetadata)) {
+			if (JSON.stringify(payload) !== JSON.stringify(currentMetadata[namespace])) {
+				await openhabApiRequest.call(this, 'PUT',
+					`${itemPath}/metadata/${encodeURIComponent(namespace)}`,
+					payload as IDataObject,
+				);
+			}
+		}
+		for (const namespace of Object.keys(currentMetadata)) {
+			if (desiredMetadata[namespace] === undefined) {
+				await openhabApiRequest.call(this, 'DELETE', `${itemPath}/metadata/${encodeURIComponent(namespace)}`);
+			}
+		}
+		return;
+	}
+
+	if (change.type === 'links') {
+		const linkEntity = change.action === 'delete' ? current : entity;
+		const linkPath = `/links/${encodeURIComponent(linkEntity.itemName as string)}/${encodeURIComponent(linkEntity.channelUID as string)}`;
+		if (change.action === 'delete') {
+			await openhabApiRequest.call(this, 'DELETE', linkPath);
+		} else {
+			await openhabApiRequest.call(this, 'PUT', linkPath, entity);
+		}
+		return;
+	}
+
+	const path = `/${change.type}`;
+	if (change.action === 'create') {
+		await openhabApiRequest.call(this, 'POST', path, entity);
+	} else if (change.action === 'update') {
+		await openhabApiRequest.call(this, 'PUT', `${path}/${encodeURIComponent(change.id)}`, entity);
+	} else if (change.action === 'delete') {
+		await openhabApiRequest.call(this, 'DELETE', `${path}/${encodeURIComponent(change.id)}`);
+	}
+}
+
+/**
+ * Compares a configuration document with the server and writes the changes unless it is a dry run.
+ * @returns One result per entity with the action and whether it was applied
+ */
+async function importConfigDocument(
+	this: IExecuteFunctions,
+	document: ConfigDocument,
+	current: Partial<Record<EntityType, IDataObject[]>>,
+	deleteMissing: boolean,
+	deleteMissingMetadata: boolean,
+	dryRun: boolean,
+): Promise<IDataObject[]> {
+	const changes = diffConfig(document, current, deleteMissing, deleteMissingMetadata);
+	// Create and update in dependency order (items before links), delete in reverse order
+	const deletes = changes
+		.filter((change) => change.action === 'delete')
+		.sort((a, b) => ENTITY_TYPES.indexOf(b.type) - ENTITY_TYPES.indexOf(a.type));
+	const ordered = [...changes.filter((change) => change.action !== 'delete'), ...deletes];
+	const results: IDataObject[] = [];
+	for (const change of ordered) {
+		const result: IDataObject = {
+			type: change.type,
+			id: change.id,
+			action: change.action,
+			...(change.fields ? { fields: change.fields } : {}),
+		};
+		if (!dryRun && change.action !== 'unchanged') {
+			try {
+				await applyConfigChange.call(this, change);
+				result.applied = true;
+			} catch (error) {
+				result.applied = false;
+				result.error = (error as Error).message;
+			}
+		} else {
+			result.applied = false;
+		}
+		results.push(result);
+	}
+	return results;
+}
+
+const DSL_SCRIPT_TYPE = 'application/vnd.openhab.dsl.rule';
+
+/**
+ * Throws if script actions cannot run Rule DSL scripts, which are needed to play URLs with `playStream`. The script
+ * types available in script actions are the options of the `type` parameter of the `script.ScriptAction` module.
+ */
+async function assertDslScriptEngine(this: IExecuteFunctions): Promise<void> {
+	const moduleType = (await openhabApiRequest.call(
+		this,
+		'GET',
+		'/module-types/script.ScriptAction',
+		{},
+		{},
+		{ allowNotFound: true },
+	)) as IDataObject | undefined;
+	const parameters = (moduleType?.configDescriptions as IDataObject[] | undefined) ?? [];
+	const scriptTypes = ((parameters.find((parameter) => parameter.name === 'type')?.options as IDataObject[]) ?? []).map(
+		(option) => option.value,
+	);
+	if (!scriptTypes.includes(DSL_SCRIPT_TYPE)) {
+		throw new NodeOperationError(this.getNode(), 'openHAB cannot run Rule DSL scripts, which are needed to play URLs', {
+			description: `Script actions support ${scriptTypes.length > 0 ? scriptTypes.join(', ') : 'no script types'}. Play a sound file instead, or enable the Rule DSL script engine (${DSL_SCRIPT_TYPE}).`,
+		});
+	}
+}
+
+/**
+ * Plays a sound file from the openHAB sounds folder (`media.PlayAction`) or a stream URL (`playStream` in a Rule
+ * DSL script action). The REST API has no playback endpoint, so the action runs in a temporary hidden rule, which
+ * is removed afterwards even if running it fails. Creating and deleting the rule needs admin permissions.
+ */
+async function playSound(
+	this: IExecuteFunctions,
+	source: { sound: string } | { url: string },
+	sinkId: string,
+	volume: number,
+): Promise<void> {
+	const ruleUid = `n8n_play_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+	let action: IDataObject;
+	if ('url' in source) {
+		await assertDslScriptEngine.call(this);
+		const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+		action = {
+			id: '1',
+			type: 'script.ScriptAction',
+			configuration: {
+				type: DSL_SCRIPT_TYPE,
+				script: sinkId ? `playStream(${quote(sinkId)}, ${quote(source.url)})` : `playStream(${quote(source.url)})`,
+			},
+		};
+	} else {
+		const configuration: IDataObject = { sound: source.sound };
+		if (sinkId) {
+			configuration.sink = sinkId;
+		}
+		if (volume > 0) {
+			configuration.volume = volume;
+		}
+		action = { id: '1', type: 'media.PlayAction', configuration };
+	}
+
+	let failure: Error | null = null;
+	try {
+		await openhabApiRequest.call(this, 'POST', '/rules', {
+			uid: ruleUid,
+			name: `n8n: play ${'url' in source ? source.url : source.sound}`,
+			visibility: 'HIDDEN',
+			triggers: [],
+			conditions: [],
+			actions: [action],
+		});
+		await openhabApiRequest.call(this, 'POST', `/rules/${encodeURIComponent(ruleUid)}/runnow`, {});
+	} catch (error) {
+		failure = error as Error;
+	}
+
+	// The rule may have been created even if the request failed, so removal is always attempted (and retried once)
+	let cleanupError: Error | null = null;
+	for (let attempt = 0; attempt < 2; attempt++) {
+		if (attempt > 0) {
+			await sleep(1000);
+		}
+		try {
+			await openhabApiRequest.call(this, 'DELETE', `/rules/${encodeURIComponent(ruleUid)}`, {}, {}, {
+				allowNotFound: true,
+			});
+			cleanupError = null;
+			break;
+		} catch (error) {
+			cleanupError = error as Error;
+		}
+	}
+
+	if (cleanupError) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`${failure ? `${failure.message}. ` : ''}The temporary rule ${ruleUid} could not be removed: ${cleanupError.message}`,
+			{ description: 'Delete the rule in Settings → Rules of the openHAB UI.' },
+		);
+	}
+	if (failure) {
+		throw failure;
+	}
+}
+
+/**
+ * Returns the actions of the thing selected in the node, or none if no thing is selected yet.
+ */
+async function getSelectedThingActions(this: ILoadOptionsFunctions): Promise<IDataObject[]> {
+	const thingUid = this.getCurrentNodeParameter('actionThingUid', { extractValue: true }) as string | undefined;
+	if (!thingUid) {
+		return [];
+	}
+	return (await openhabApiRequest.call(this, 'GET', `/actions/${encodeURIComponent(thingUid)}`, {}, {})) as IDataObject[];
+}
+
+/**
+ * Adds the rule status (IDLE, RUNNING, UNINITIALIZED, ...) as a top-level `ruleStatus` field.
+ */
+function withRuleStatus(rule: IDataObject): IDataObject {
+	const status = rule.status as IDataObject | undefined;
+	return {
+		...rule,
+		ruleStatus: (status?.status as string | undefined) ?? null,
+	};
+}
+
+/**
+ * Strips the runtime fields of an enriched thing (status, editable, ...) so it can be sent back with PUT /rest/things/{thingUID}.
+ */
+function toThingDefinition(thing: IDataObject): IDataObject {
+	const definition: IDataObject = {};
+	for (const key of [
+		'UID',
+		'thingTypeUID',
+		'bridgeUID',
+		'label',
+		'location',
+		'configuration',
+		'properties',
+		'channels',
+	]) {
+		if (thing[key] !== undefined) {
+			definition[key] = thing[key];
+		}
+	}
+	return definition;
+}
+
+/**
+ * Validates a configuration update against the config description of the thing's type.
+ * @returns The configuration with values converted to the declared parameter types
+ */
+async function validateThingConfiguration(
+	this: IExecuteFunctions,
+	thingUid: string,
+	update: IDataObject,
+	itemIndex: number,
+): Promise<IDataObject> {
+	const thing = (await openhabApiRequest.call(this, 'GET',
+		`/things/${encodeURIComponent(thingUid)}`,
+		{},
+		{},
+	)) as IDataObject;
+	const thingType = (await openhabApiRequest.call(this, 'GET',
+		`/thing-types/${encodeURIComponent(thing.thingTypeUID as string)}`,
+		{},
+		{},
+	)) as IDataObject;
+	const { configuration, errors } = validateConfiguration(
+		update,
+		(thing.configuration as IDataObject | undefined) ?? {},
+		(thingType.configParameters as ConfigDescriptionParameter[] | undefined) ?? [],
+	);
+	if (errors.length > 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Invalid configuration for thing ${thingUid} (${thing.thingTypeUID as string})`,
+			{ description: errors.join('; '), itemIndex },
+		);
+	}
+	return configuration;
+}
+
 export class openHAB implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'openHAB',
 		name: 'openHab',
 		icon: 'file:openhab.svg',
 		group: ['transform'],
-		version: 1,
+		version: [1, 2],
+		defaultVersion: 2,
 		description:
 			'Interact with openHAB through its REST API, including remote access via myopenHAB.org. Inline docs explain typical flows (send commands, query states, trigger rules, etc.).',
 		defaults: {
@@ -169,6 +1034,41 @@ export class openHAB implements INodeType {
 						value: 'rule',
 						description: 'List or trigger automation rules.',
 					},
+					{
+						name: 'Thing Action',
+						value: 'action',
+						description: 'List and invoke actions provided by things (e.g., send mail, publish MQTT message).',
+					},
+					{
+						name: 'Inbox',
+						value: 'inbox',
+						description: 'Discover new devices: start binding scans, list, approve or ignore inbox entries.',
+					},
+					{
+						name: 'Link',
+						value: 'link',
+						description: 'Manage links between items and thing channels, including profiles.',
+					},
+					{
+						name: 'Persistence',
+						value: 'persistence',
+						description: 'Read historical item data or store data points in a persistence service.',
+					},
+					{
+						name: 'Semantic Model',
+						value: 'semantic',
+						description: 'Navigate locations, equipment and points, e.g. all temperature measurements in the kitchen.',
+					},
+					{
+						name: 'Voice / Audio',
+						value: 'voice',
+						description: 'Announce text on speakers, interpret text commands, or play sounds on audio sinks.',
+					},
+					{
+						name: 'Configuration',
+						value: 'config',
+						description: 'Export and import items, things, links and rules, e.g. for backups.',
+					},
 					{
 						name: 'System',
 						value: 'system',
@@ -221,164 +1121,2240 @@ export class openHAB implements INodeType {
 							'PUT /rest/items/{itemName}/state — updates state without commanding (useful for virtual items).',
 						action: 'Update state',
 					},
+					{
+						name: 'Send Commands (Bulk)',
+						value: 'bulkCommand',
+						description:
+							'Sends commands to many items with limited concurrency and reports the result per item without aborting on errors.',
+						action: 'Send commands in bulk',
+					},
+					{
+						name: 'Snapshot States',
+						value: 'snapshot',
+						description:
+							'Reads the current states of the selected items into a scene object that can be restored later.',
+						action: 'Snapshot item states',
+					},
+					{
+						name: 'Restore Snapshot',
+						value: 'restoreScene',
+						description:
+							'Replays a scene created by Snapshot States as commands or state updates, skipping unchanged items.',
+						action: 'Restore item states',
+					},
 					{
 						name: 'Get Metadata',
 						value: 'metadata',
 						description:
-							'GET /rest/items/{itemName}?metadata=.* — retrieves metadata via the item endpoint.',
+							'GET /rest/items/{itemName}?metadata={namespaces} — retrieves metadata via the item endpoint.',
 						action: 'Get metadata',
 					},
+					{
+						name: 'Set Metadata',
+						value: 'setMetadata',
+						description:
+							'PUT /rest/items/{itemName}/metadata/{namespace} — sets value and configuration of one namespace.',
+						action: 'Set metadata',
+					},
+					{
+						name: 'Delete Metadata',
+						value: 'deleteMetadata',
+						description: 'DELETE /rest/items/{itemName}/metadata/{namespace}',
+						action: 'Delete metadata',
+					},
+					{
+						name: 'Set Metadata by Tag',
+						value: 'setMetadataByTag',
+						description:
+							'Sets one metadata namespace on every item matching the tag filter and reports the result per item.',
+						action: 'Set metadata by tag',
+					},
+					{
+						name: 'Create or Update Item',
+						value: 'upsert',
+						description:
+							'PUT /rest/items/{itemName} — creates the item or replaces its definition (type, label, category, groups, tags).',
+						action: 'Create or update item',
+					},
+					{
+						name: 'Upsert Items',
+						value: 'upsertMany',
+						description:
+							'Creates or updates a list of item definitions and reports created/updated/unchanged/failed per item.',
+						action: 'Upsert items',
+					},
+					{
+						name: 'Add to Group',
+						value: 'addToGroup',
+						description: 'PUT /rest/items/{groupName}/members/{itemName}',
+						action: 'Add item to group',
+					},
+					{
+						name: 'Remove From Group',
+						value: 'removeFromGroup',
+						description: 'DELETE /rest/items/{groupName}/members/{itemName}',
+						action: 'Remove item from group',
+					},
+					{
+						name: 'List Group Members',
+						value: 'groupMembers',
+						description: 'Returns the direct or nested members of a group with their states.',
+						action: 'List group members',
+					},
+					{
+						name: 'Get Group State',
+						value: 'groupState',
+						description: 'Returns the aggregation function and computed state of a group with a summary of the member states.',
+						action: 'Get group state',
+					},
+					{
+						name: 'Delete Item',
+						value: 'delete',
+						description: 'DELETE /rest/items/{itemName}',
+						action: 'Delete item',
+					},
 				],
 				default: 'list',
 			},
+			...withLegacyStringParameter(
+				{
+					displayName: 'Item',
+					name: 'itemName',
+					type: 'resourceLocator',
+					required: true,
+					displayOptions: {
+						show: {
+							resource: ['item'],
+							itemOperation: [
+								'get',
+								'state',
+								'command',
+								'updateState',
+								'metadata',
+								'setMetadata',
+								'deleteMetadata',
+								'upsert',
+								'delete',
+								'addToGroup',
+								'removeFromGroup',
+							],
+						},
+					},
+					default: { mode: 'list', value: '' },
+					modes: buildLocatorModes('items', 'searchItems', 'Kitchen_Light'),
+					description: 'Item to use: pick it from the list, enter its name, or paste its URL from the openHAB UI.',
+				},
+				{ displayName: 'Item Name', description: 'Exact item name as defined in openHAB.' },
+			),
 			{
-				displayName: 'Item Name',
-				name: 'itemName',
-				type: 'string',
+				displayName: 'Group',
+				name: 'groupName',
+				type: 'resourceLocator',
 				required: true,
 				displayOptions: {
 					show: {
 						resource: ['item'],
-						itemOperation: ['get', 'state', 'command', 'updateState', 'metadata'],
+						itemOperation: ['addToGroup', 'removeFromGroup', 'groupMembers', 'groupState'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: buildLocatorModes('items', 'searchGroups', 'gKitchen'),
+				description: 'Group item to use: pick it from the list, enter its name, or paste its URL from the openHAB UI.',
+			},
+			{
+				displayName: 'Include Nested Members',
+				name: 'membersRecursive',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['groupMembers'],
+					},
+				},
+				default: false,
+				description: 'Whether to also list the members of nested groups, each with the group it is a direct member of',
+			},
+			{
+				displayName: 'Item Type',
+				name: 'itemType',
+				type: 'options',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['upsert'],
+					},
+				},
+				options: ITEM_TYPES.map((type) => ({ name: type, value: type })),
+				default: 'Switch',
+				description: 'openHAB item type.',
+			},
+			{
+				displayName: 'Dimension',
+				name: 'itemDimension',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['upsert'],
+						itemType: ['Number'],
+					},
+				},
+				default: '',
+				placeholder: 'Temperature',
+				description:
+					'Optional unit dimension for quantity items (e.g., Temperature, Power, Energy). Results in type Number:<Dimension>.',
+			},
+			{
+				displayName: 'Label',
+				name: 'itemLabel',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['upsert'],
+					},
+				},
+				default: '',
+				description: 'Human-readable label shown in UIs.',
+			},
+			{
+				displayName: 'Category',
+				name: 'itemCategory',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['upsert'],
+					},
+				},
+				default: '',
+				description: 'Icon/category of the item (e.g., temperature, lightbulb).',
+			},
+			{
+				displayName: 'Group Names',
+				name: 'itemGroupNames',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['upsert'],
+					},
+				},
+				default: '',
+				description: 'Comma-separated list of groups the item is a member of (e.g., gKitchen,gLights).',
+			},
+			{
+				displayName: 'Tags',
+				name: 'itemTags',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['upsert'],
+					},
+				},
+				default: '',
+				description: 'Comma-separated list of tags (e.g., Lighting,Switch).',
+			},
+			{
+				displayName: 'Item Definitions',
+				name: 'itemDefinitions',
+				type: 'json',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['upsertMany'],
+					},
+				},
+				default: '[]',
+				placeholder: '[{"name": "Weather_Temperature", "type": "Number:Temperature", "label": "Outside Temperature", "tags": ["Measurement", "Temperature"]}]',
+				description:
+					'Array of item definitions with name, type and optional label, category, groupNames and tags. Groups also take groupType and function, or the type as in .items files, e.g. Group:Switch:OR(ON,OFF). Use an expression such as {{ $json.items }} to take the array from the input. The definition replaces the existing one, so omitted groups or tags are removed.',
+			},
+			{
+				displayName: 'Command / State',
+				name: 'command',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['command', 'updateState'],
+					},
+				},
+				default: '',
+				description:
+					'Examples: ON, OFF, TOGGLE, 22, 50%, UP, DOWN, PLAY, PAUSE. Use device-supported values.',
+			},
+			{
+				displayName: 'Items From',
+				name: 'bulkSource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['bulkCommand'],
+					},
+				},
+				options: [
+					{
+						name: 'List',
+						value: 'list',
+						description: 'Enter item/command pairs',
+					},
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'Item/command pairs as JSON, e.g. from the input',
+					},
+					{
+						name: 'Tag or Group',
+						value: 'filter',
+						description: 'Send the same command to all items with the tags or in the group',
+					},
+				],
+				default: 'list',
+			},
+			{
+				displayName: 'Commands',
+				name: 'bulkCommands',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['bulkCommand'],
+						bulkSource: ['list'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Command',
+				options: [
+					{
+						displayName: 'Command',
+						name: 'command',
+						values: [
+							{
+								displayName: 'Item Name or ID',
+								name: 'item',
+								type: 'options',
+								typeOptions: {
+									loadOptionsMethod: 'getItems',
+								},
+								default: '',
+								description:
+									'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+							},
+							{
+								displayName: 'Command',
+								name: 'command',
+								type: 'string',
+								default: '',
+								placeholder: 'OFF',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Commands (JSON)',
+				name: 'bulkCommandsJson',
+				type: 'json',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['bulkCommand'],
+						bulkSource: ['json'],
+					},
+				},
+				default: '[]',
+				placeholder: '[{"item": "Radiator_Bath_Setpoint", "command": "21 °C"}]',
+				description:
+					'Array of objects with item and command, or an object mapping item names to commands (e.g., {"Light_1": "OFF", "Light_2": "OFF"}).',
+			},
+			{
+				displayName: 'Tag Filter',
+				name: 'bulkTagFilter',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['bulkCommand'],
+						bulkSource: ['filter'],
+					},
+				},
+				default: '',
+				placeholder: 'Lighting',
+				description: 'Comma-separated list of tags to select the items.',
+			},
+			{
+				displayName: 'Group',
+				name: 'bulkGroup',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['bulkCommand'],
+						bulkSource: ['filter'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: buildLocatorModes('items', 'searchGroups', 'gLights'),
+				description:
+					'Group whose members (including members of nested groups) receive the command. Combined with the tag filter, only members with the tags are used.',
+			},
+			{
+				displayName: 'Command',
+				name: 'bulkFilterCommand',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['bulkCommand'],
+						bulkSource: ['filter'],
+					},
+				},
+				default: '',
+				placeholder: 'OFF',
+				description: 'Command to send to every selected item.',
+			},
+			{
+				displayName: 'Item Names or IDs',
+				name: 'sceneItemNames',
+				type: 'multiOptions',
+				typeOptions: {
+					loadOptionsMethod: 'getItems',
+				},
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['snapshot'],
+					},
+				},
+				default: [],
+				description:
+					'Items to include in the snapshot. Choose from the list, or specify names (as a list or comma-separated) using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Tag Filter',
+				name: 'sceneTagFilter',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['snapshot'],
+					},
+				},
+				default: '',
+				placeholder: 'Lighting',
+				description: 'Comma-separated list of tags. Items with the tags are included in addition to the listed items.',
+			},
+			{
+				displayName: 'Group',
+				name: 'sceneGroup',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['snapshot'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: buildLocatorModes('items', 'searchGroups', 'gHallLights'),
+				description:
+					'Group whose members (including members of nested groups) are included. Combined with the tag filter, only members with the tags are used.',
+			},
+			{
+				displayName: 'Scene Name',
+				name: 'sceneName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['snapshot'],
+					},
+				},
+				default: '',
+				placeholder: 'before-doorbell',
+				description: 'Optional name stored in the scene.',
+			},
+			{
+				displayName: 'Scene',
+				name: 'scene',
+				type: 'json',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['restoreScene'],
+					},
+				},
+				default: '{}',
+				placeholder: '{"createdAt": "2026-01-01T18:00:00.000Z", "items": [{"name": "Hall_Light", "state": "40"}]}',
+				description:
+					'Scene object as output by Snapshot States, e.g. {{ JSON.stringify($(\'Snapshot\').item.json) }}',
+			},
+			{
+				displayName: 'Restore As',
+				name: 'restoreMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['restoreScene'],
+					},
+				},
+				options: [
+					{
+						name: 'Commands',
+						value: 'command',
+						description:
+							'Send the states as commands, so devices follow. Items that do not accept commands (e.g., Contact) get a state update.',
+					},
+					{
+						name: 'State Updates',
+						value: 'state',
+						description: 'Only update the item states (e.g., for virtual items)',
+					},
+				],
+				default: 'command',
+			},
+			{
+				displayName: 'Concurrency',
+				name: 'bulkConcurrency',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['bulkCommand', 'restoreScene'],
+					},
+				},
+				default: 1,
+				description:
+					'Maximum number of commands sent at the same time. Keep it low for myopenHAB, which throttles bursts.',
+			},
+			{
+				displayName: 'Delay Between Commands (Ms)',
+				name: 'bulkDelay',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['bulkCommand', 'restoreScene'],
+					},
+				},
+				default: 0,
+				description: 'Minimum time between sending two consecutive commands.',
+			},
+			{
+				displayName: 'Wait for Confirmation',
+				name: 'waitForConfirmation',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['command'],
+					},
+				},
+				default: false,
+				description:
+					'Whether to wait until the item reaches the expected state (or changes at all) after sending the command. Note that items with autoupdate enabled change their state immediately, before the device reacts.',
+			},
+			{
+				displayName: 'Report Changed Group Members',
+				name: 'reportMemberChanges',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['command'],
+					},
+				},
+				default: false,
+				description:
+					'Whether to compare the member states of the group before and after the command and report the members that changed. Only for group items.',
+			},
+			{
+				displayName: 'Settle Time (Ms)',
+				name: 'memberSettleTime',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['command'],
+						reportMemberChanges: [true],
+					},
+				},
+				default: 1000,
+				description: 'Time to wait after the command before reading the member states again.',
+			},
+			{
+				displayName: 'Confirm When',
+				name: 'confirmationCondition',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['command'],
+						waitForConfirmation: [true],
+					},
+				},
+				options: [
+					{
+						name: 'State Matches Expected State',
+						value: 'expectedState',
+					},
+					{
+						name: 'State Changes',
+						value: 'anyChange',
+						description: 'Any ItemStateChangedEvent of the item',
+					},
+				],
+				default: 'expectedState',
+			},
+			{
+				displayName: 'Expected State',
+				name: 'expectedState',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['command'],
+						waitForConfirmation: [true],
+						confirmationCondition: ['expectedState'],
+					},
+				},
+				default: '',
+				placeholder: '100',
+				description:
+					'State to wait for. Leave empty to derive it from the command and item type (e.g., any brightness above 0 after ON for a Dimmer, 0 after UP for a Rollershutter); commands without a predictable state, like INCREASE or STOP, wait for any change. Numbers are compared by value and unit, colors per HSB component.',
+			},
+			{
+				displayName: 'Method',
+				name: 'confirmationMethod',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['command'],
+						waitForConfirmation: [true],
+					},
+				},
+				options: [
+					{
+						name: 'Event WebSocket',
+						value: 'websocket',
+						description: 'Listen for ItemStateChangedEvents (openHAB 4.1+, requires an API token for myopenHAB)',
+					},
+					{
+						name: 'Polling',
+						value: 'polling',
+						description: 'Poll the item state in a fixed interval',
+					},
+				],
+				default: 'websocket',
+			},
+			{
+				displayName: 'Poll Interval (Ms)',
+				name: 'confirmationPollInterval',
+				type: 'number',
+				typeOptions: { minValue: 100 },
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['command'],
+						waitForConfirmation: [true],
+						confirmationMethod: ['polling'],
+					},
+				},
+				default: 500,
+			},
+			{
+				displayName: 'Timeout (Seconds)',
+				name: 'confirmationTimeout',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['command'],
+						waitForConfirmation: [true],
+					},
+				},
+				default: 10,
+			},
+			{
+				displayName: 'Error on Timeout',
+				name: 'confirmationErrorOnTimeout',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['command'],
+						waitForConfirmation: [true],
+					},
+				},
+				default: false,
+				description:
+					'Whether to fail when the timeout elapses instead of returning timedOut: true. Set "On Error" to "Continue (using error output)" in the node settings to route timeouts to the error output.',
+			},
+			{
+				displayName: 'Output',
+				name: 'stateOutput',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['state'],
+					},
+				},
+				options: [
+					{
+						name: 'Raw State',
+						value: 'raw',
+						description: 'The state string as returned by openHAB',
+					},
+					{
+						name: 'Structured',
+						value: 'structured',
+						description:
+							'Item type, decoded value (number and unit, HSB/RGB/hex, ISO timestamp, boolean, null for NULL/UNDEF) and the display state',
+					},
+				],
+				default: 'raw',
+			},
+			{
+				displayName: 'Validate and Convert Value',
+				name: 'validateCommand',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['command', 'updateState', 'bulkCommand'],
+					},
+				},
+				default: false,
+				description:
+					'Whether to fetch the item type first and validate/convert the value: hex/RGB/HSB to HSB for Color, units for quantity Number items, 0-100 clamping for Dimmer/Rollershutter, ISO dates for DateTime and true/false for Switch.',
+			},
+			{
+				displayName: 'Tag Filter',
+				name: 'tagFilter',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['list', 'setMetadataByTag'],
+					},
+				},
+				default: '',
+				description: 'Comma-separated list of tags to filter items (e.g., Lighting,Kitchen).',
+			},
+			{
+				displayName: 'Namespaces',
+				name: 'metadataSelector',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['metadata'],
+					},
+				},
+				default: '.*',
+				description:
+					'Comma-separated metadata namespaces (e.g., alexa,homekit) or a regular expression. Defaults to all namespaces.',
+			},
+			{
+				displayName: 'Namespace',
+				name: 'metadataNamespace',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['setMetadata', 'deleteMetadata', 'setMetadataByTag'],
+					},
+				},
+				default: '',
+				placeholder: 'homekit',
+				description: 'Metadata namespace, e.g., alexa, homekit, expire, stateDescription or a custom namespace.',
+			},
+			{
+				displayName: 'Value',
+				name: 'metadataValue',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['setMetadata', 'setMetadataByTag'],
+					},
+				},
+				default: '',
+				placeholder: 'Lighting',
+				description: 'Main value of the namespace (e.g., "Lighting" for homekit, "10m,command=OFF" for expire).',
+			},
+			{
+				displayName: 'Configuration',
+				name: 'metadataConfig',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['item'],
+						itemOperation: ['setMetadata', 'setMetadataByTag'],
+					},
+				},
+				default: '{}',
+				placeholder: '{"pattern": "%.1f %unit%", "readOnly": true}',
+				description: 'Optional JSON object with the namespace configuration.',
+			},
+
+			/* Thing operations */
+			{
+				displayName: 'Operation',
+				name: 'thingOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['thing'],
+					},
+				},
+				options: [
+					{
+						name: 'List Things',
+						value: 'list',
+						description: 'GET /rest/things',
+						action: 'List things',
+					},
+					{
+						name: 'Get Thing',
+						value: 'get',
+						description: 'GET /rest/things/{thingUID}',
+						action: 'Get thing',
+					},
+					{
+						name: 'Get Status',
+						value: 'status',
+						description: 'GET /rest/things/{thingUID}/status',
+						action: 'Get thing status',
+					},
+					{
+						name: 'Enable / Disable Thing',
+						value: 'toggle',
+						description: 'PUT /rest/things/{thingUID}/enable with true/false',
+						action: 'Toggle thing',
+					},
+					{
+						name: 'Update Configuration',
+						value: 'updateConfig',
+						description:
+							'PUT /rest/things/{thingUID}/config — changes configuration parameters (e.g., polling interval, IP address).',
+						action: 'Update thing configuration',
+					},
+					{
+						name: 'Update Thing',
+						value: 'update',
+						description: 'PUT /rest/things/{thingUID} — changes label and location of the thing.',
+						action: 'Update thing',
+					},
+					{
+						name: 'Delete Thing',
+						value: 'delete',
+						description: 'DELETE /rest/things/{thingUID}',
+						action: 'Delete thing',
+					},
+				],
+				default: 'list',
+			},
+			...withLegacyStringParameter(
+				{
+					displayName: 'Thing',
+					name: 'thingUid',
+					type: 'resourceLocator',
+					required: true,
+					displayOptions: {
+						show: {
+							resource: ['thing'],
+							thingOperation: ['get', 'status', 'toggle', 'updateConfig', 'update', 'delete'],
+						},
+					},
+					default: { mode: 'list', value: '' },
+					modes: buildLocatorModes('things', 'searchThings', 'hue:0100:bridge:bulb1'),
+					description: 'Thing to use: pick it from the list, enter its full UID, or paste its URL from the openHAB UI.',
+				},
+				{ displayName: 'Thing UID', description: 'Full thing UID, e.g., hue:0100:bridge:bulb1.' },
+			),
+			{
+				displayName: 'Enable',
+				name: 'thingEnable',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['thing'],
+						thingOperation: ['toggle'],
+					},
+				},
+				default: true,
+				description: 'True to enable, false to disable the thing.',
+			},
+			{
+				displayName: 'Configuration',
+				name: 'thingConfiguration',
+				type: 'json',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['thing'],
+						thingOperation: ['updateConfig'],
+					},
+				},
+				default: '{}',
+				placeholder: '{"refreshInterval": 60, "ipAddress": "192.168.1.20"}',
+				description: 'JSON object with the configuration parameters to change. Parameters not listed keep their value.',
+			},
+			{
+				displayName: 'Validate Configuration',
+				name: 'thingValidateConfiguration',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['thing'],
+						thingOperation: ['updateConfig'],
+					},
+				},
+				default: true,
+				description:
+					'Whether to check names, types, ranges and options against the config description of the thing type before sending.',
+			},
+			{
+				displayName: 'Label',
+				name: 'thingLabel',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['thing'],
+						thingOperation: ['update'],
+					},
+				},
+				default: '',
+				description: 'New label of the thing. Leave empty to keep the current label.',
+			},
+			{
+				displayName: 'Location',
+				name: 'thingLocation',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['thing'],
+						thingOperation: ['update'],
+					},
+				},
+				default: '',
+				description: 'New location of the thing. Leave empty to keep the current location.',
+			},
+			{
+				displayName: 'Force',
+				name: 'thingForce',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['thing'],
+						thingOperation: ['delete'],
+					},
+				},
+				default: false,
+				description:
+					'Whether to remove the thing immediately, even if its handler has not finished the removal (e.g., when the device is unreachable).',
+			},
+
+			/* Rule operations */
+			{
+				displayName: 'Operation',
+				name: 'ruleOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['rule'],
+					},
+				},
+				options: [
+					{
+						name: 'List Rules',
+						value: 'list',
+						description: 'GET /rest/rules',
+						action: 'List rules',
+					},
+					{
+						name: 'Get Rule',
+						value: 'get',
+						description: 'GET /rest/rules/{ruleUID}',
+						action: 'Get rule',
+					},
+					{
+						name: 'Create Rule',
+						value: 'create',
+						description: 'POST /rest/rules with a JSON rule definition (triggers, conditions, actions).',
+						action: 'Create rule',
+					},
+					{
+						name: 'Update Rule',
+						value: 'update',
+						description: 'PUT /rest/rules/{ruleUID} with a JSON rule definition.',
+						action: 'Update rule',
+					},
+					{
+						name: 'Delete Rule',
+						value: 'delete',
+						description: 'DELETE /rest/rules/{ruleUID}',
+						action: 'Delete rule',
+					},
+					{
+						name: 'Run Rule Now',
+						value: 'run',
+						description: 'POST /rest/rules/{ruleUID}/runnow with an optional context object.',
+						action: 'Run rule',
+					},
+						{
+							name: 'Enable / Disable Rule',
+							value: 'toggle',
+							description: 'POST /rest/rules/{ruleUID}/enable with true/false',
+							action: 'Toggle rule',
+						},
+					],
+				default: 'list',
+			},
+			{
+				displayName: 'Tag Filter',
+				name: 'ruleTagFilter',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['rule'],
+						ruleOperation: ['list'],
+					},
+				},
+				default: '',
+				description: 'Comma-separated list of tags to filter rules (e.g., Schedule,Lighting).',
+			},
+			{
+				displayName: 'UID Prefix',
+				name: 'rulePrefix',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['rule'],
+						ruleOperation: ['list'],
+					},
+				},
+				default: '',
+				description: 'Only return rules whose UID starts with this prefix.',
+			},
+			{
+				displayName: 'Summary Only',
+				name: 'ruleSummary',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['rule'],
+						ruleOperation: ['list'],
+					},
+				},
+				default: false,
+				description: 'Whether to return only summary fields (UID, name, tags, status) instead of the full rule definitions.',
+			},
+			...withLegacyStringParameter(
+				{
+					displayName: 'Rule',
+					name: 'ruleUid',
+					type: 'resourceLocator',
+					required: true,
+					displayOptions: {
+						show: {
+							resource: ['rule'],
+							ruleOperation: ['get', 'update', 'delete', 'run', 'toggle'],
+						},
+					},
+					default: { mode: 'list', value: '' },
+					modes: buildLocatorModes('rules', 'searchRules', 'lighting_evening'),
+					description: 'Rule to use: pick it from the list, enter its UID, or paste its URL from the openHAB UI.',
+				},
+				{ displayName: 'Rule UID', description: 'Rule UID as shown in openHAB (e.g., lighting_evening).' },
+			),
+			{
+				displayName: 'Rule Definition',
+				name: 'ruleDefinition',
+				type: 'json',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['rule'],
+						ruleOperation: ['create', 'update'],
+					},
+				},
+				default: '{}',
+				placeholder:
+					'{"uid": "evening_lights", "name": "Evening lights", "triggers": [], "conditions": [], "actions": []}',
+				description:
+					'Rule as JSON with uid, name, tags, triggers, conditions and actions, as returned by Get Rule. For updates, the UID in the definition is set to the Rule UID.',
+			},
+			{
+				displayName: 'Context',
+				name: 'ruleContext',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['rule'],
+						ruleOperation: ['run'],
+					},
+				},
+				default: '{}',
+				placeholder: '{"targetTemperature": 21, "room": "Kitchen"}',
+				description: 'Optional JSON object passed to the rule as its execution context.',
+			},
+			{
+				displayName: 'Enable',
+				name: 'ruleEnable',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['rule'],
+						ruleOperation: ['toggle'],
+					},
+				},
+				default: true,
+				description: 'True to enable, false to disable the rule.',
+			},
+
+			/* Thing action operations */
+			{
+				displayName: 'Operation',
+				name: 'actionOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['action'],
+					},
+				},
+				options: [
+					{
+						name: 'List Actions',
+						value: 'list',
+						description: 'GET /rest/actions/{thingUID} — actions of the thing with their inputs and outputs.',
+						action: 'List thing actions',
+					},
+					{
+						name: 'Invoke Action',
+						value: 'invoke',
+						description: 'POST /rest/actions/{thingUID}/{actionUID} — returns the output map of the action.',
+						action: 'Invoke thing action',
+					},
+				],
+				default: 'list',
+			},
+			{
+				displayName: 'Thing',
+				name: 'actionThingUid',
+				type: 'resourceLocator',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['action'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: buildLocatorModes('things', 'searchThings', 'mail:smtp:local'),
+				description: 'Thing whose actions to use: pick it from the list, enter its full UID, or paste its URL from the openHAB UI.',
+			},
+			{
+				displayName: 'Action Name or ID',
+				name: 'actionUid',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getThingActions',
+					loadOptionsDependsOn: ['actionThingUid.value'],
+				},
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['action'],
+						actionOperation: ['invoke'],
+					},
+				},
+				default: '',
+				description:
+					'Action of the thing to invoke. Choose from the list, or specify an actionUid as returned by List Actions using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Inputs',
+				name: 'actionInputs',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['action'],
+						actionOperation: ['invoke'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Input',
+				description:
+					'Input parameters of the action. Values are converted to the input types declared by the action (numbers, booleans).',
+				options: [
+					{
+						displayName: 'Input',
+						name: 'input',
+						values: [
+							{
+								displayName: 'Name or ID',
+								name: 'name',
+								type: 'options',
+								typeOptions: {
+									loadOptionsMethod: 'getThingActionInputs',
+									loadOptionsDependsOn: ['actionThingUid.value', 'actionUid'],
+								},
+								default: '',
+								description:
+									'Input of the selected action. Choose from the list, or specify an input name as listed by List Actions using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+
+			/* Inbox operations */
+			{
+				displayName: 'Operation',
+				name: 'inboxOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['inbox'],
+					},
+				},
+				options: [
+					{
+						name: 'List Inbox',
+						value: 'list',
+						description: 'GET /rest/inbox — optionally filtered by binding and thing type.',
+						action: 'List inbox entries',
+					},
+					{
+						name: 'List Discovery Bindings',
+						value: 'listBindings',
+						description: 'GET /rest/discovery — bindings that support discovery scans.',
+						action: 'List discovery bindings',
+					},
+					{
+						name: 'Start Scan',
+						value: 'scan',
+						description: 'POST /rest/discovery/bindings/{bindingId}/scan',
+						action: 'Start discovery scan',
+					},
+					{
+						name: 'Approve',
+						value: 'approve',
+						description: 'POST /rest/inbox/{thingUID}/approve — creates the thing with an optional label and thing ID.',
+						action: 'Approve inbox entry',
+					},
+					{
+						name: 'Ignore',
+						value: 'ignore',
+						description: 'POST /rest/inbox/{thingUID}/ignore',
+						action: 'Ignore inbox entry',
+					},
+					{
+						name: 'Unignore',
+						value: 'unignore',
+						description: 'POST /rest/inbox/{thingUID}/unignore',
+						action: 'Unignore inbox entry',
+					},
+					{
+						name: 'Remove',
+						value: 'remove',
+						description: 'DELETE /rest/inbox/{thingUID}',
+						action: 'Remove inbox entry',
+					},
+				],
+				default: 'list',
+			},
+			{
+				displayName: 'Binding ID',
+				name: 'inboxBindingId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['inbox'],
+						inboxOperation: ['scan'],
+					},
+				},
+				default: '',
+				placeholder: 'zigbee',
+				description: 'ID of the binding to scan (e.g., zigbee, zwave, hue).',
+			},
+			{
+				displayName: 'Binding Filter',
+				name: 'inboxBindingFilter',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['inbox'],
+						inboxOperation: ['list'],
+					},
+				},
+				default: '',
+				placeholder: 'zigbee',
+				description: 'Only return entries of this binding. Leave empty for all bindings.',
+			},
+			{
+				displayName: 'Thing Type Filter',
+				name: 'inboxThingTypeFilter',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['inbox'],
+						inboxOperation: ['list'],
+					},
+				},
+				default: '',
+				placeholder: 'zigbee:philips_lct001',
+				description: 'Only return entries with this thing type UID. Leave empty for all thing types.',
+			},
+			{
+				displayName: 'Include Ignored',
+				name: 'inboxIncludeIgnored',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['inbox'],
+						inboxOperation: ['list'],
+					},
+				},
+				default: true,
+				description: 'Whether to include entries that have been ignored.',
+			},
+			{
+				displayName: 'Inbox Entry',
+				name: 'inboxThingUid',
+				type: 'resourceLocator',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['inbox'],
+						inboxOperation: ['approve', 'ignore', 'unignore', 'remove'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: buildLocatorModes(null, 'searchInbox', 'zigbee:device:0a1b2c3d:0017880100c2a9f1'),
+				description: 'Inbox entry to use: pick it from the list or enter its thing UID.',
+			},
+			{
+				displayName: 'Label',
+				name: 'inboxLabel',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['inbox'],
+						inboxOperation: ['approve'],
+					},
+				},
+				default: '',
+				description: 'Label of the created thing. Leave empty to use the label of the inbox entry.',
+			},
+			{
+				displayName: 'Thing ID',
+				name: 'inboxNewThingId',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['inbox'],
+						inboxOperation: ['approve'],
+					},
+				},
+				default: '',
+				placeholder: 'living_room_bulb',
+				description: 'Custom ID (last segment of the thing UID) for the created thing. Leave empty to keep the discovered ID.',
+			},
+
+			/* Link operations */
+			{
+				displayName: 'Operation',
+				name: 'linkOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['link'],
+					},
+				},
+				options: [
+					{
+						name: 'List Links',
+						value: 'list',
+						description: 'GET /rest/links — optionally filtered by item or channel UID.',
+						action: 'List links',
+					},
+					{
+						name: 'Get Link',
+						value: 'get',
+						description: 'GET /rest/links/{itemName}/{channelUID}',
+						action: 'Get link',
+					},
+					{
+						name: 'Create or Update Link',
+						value: 'upsert',
+						description: 'PUT /rest/links/{itemName}/{channelUID} with a profile and profile configuration.',
+						action: 'Create or update link',
+					},
+					{
+						name: 'Delete Link',
+						value: 'delete',
+						description: 'DELETE /rest/links/{itemName}/{channelUID}',
+						action: 'Delete link',
+					},
+					{
+						name: 'Find Orphaned Links',
+						value: 'orphans',
+						description: 'GET /rest/links/orphans — links whose item or channel no longer exists.',
+						action: 'Find orphaned links',
+					},
+				],
+				default: 'list',
+			},
+			{
+				displayName: 'Item Filter',
+				name: 'linkItemFilter',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['link'],
+						linkOperation: ['list'],
+					},
+				},
+				default: '',
+				description: 'Only return links of this item. Leave empty for all items.',
+			},
+			{
+				displayName: 'Channel Filter',
+				name: 'linkChannelFilter',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['link'],
+						linkOperation: ['list'],
+					},
+				},
+				default: '',
+				description: 'Only return links of this channel UID. Leave empty for all channels.',
+			},
+			{
+				displayName: 'Item',
+				name: 'linkItemName',
+				type: 'resourceLocator',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['link'],
+						linkOperation: ['get', 'upsert', 'delete'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: buildLocatorModes('items', 'searchItems', 'Kitchen_Light'),
+				description: 'Item to use: pick it from the list, enter its name, or paste its URL from the openHAB UI.',
+			},
+			{
+				displayName: 'Channel',
+				name: 'linkChannelUid',
+				type: 'resourceLocator',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['link'],
+						linkOperation: ['get', 'upsert', 'delete'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: buildLocatorModes(null, 'searchChannels', 'hue:0210:bridge:bulb1:color'),
+				description: 'Channel to use: pick it from the list or enter its full UID (thing UID plus channel ID).',
+			},
+			{
+				displayName: 'Profile',
+				name: 'linkProfile',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['link'],
+						linkOperation: ['upsert'],
+					},
+				},
+				default: '',
+				placeholder: 'system:follow',
+				description: 'Profile type UID (e.g., system:default, system:follow, transform:MAP). Leave empty for the default profile.',
+			},
+			{
+				displayName: 'Profile Configuration',
+				name: 'linkProfileConfiguration',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['link'],
+						linkOperation: ['upsert'],
+					},
+				},
+				default: '{}',
+				placeholder: '{"offset": "-1.5 °C"}',
+				description: 'Optional JSON object with the profile configuration.',
+			},
+
+			/* Persistence operations */
+			{
+				displayName: 'Operation',
+				name: 'persistenceOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['persistence'],
+					},
+				},
+				options: [
+					{
+						name: 'Get Item Data',
+						value: 'getData',
+						description:
+							'GET /rest/persistence/items/{itemName} — returns one output item per data point with parsed value and unit.',
+						action: 'Get item data',
+					},
+					{
+						name: 'Get Statistics',
+						value: 'statistics',
+						description:
+							'Computes average, min/max with timestamp, delta, sum, count, changed and time-weighted average over a period for one or more items.',
+						action: 'Get statistics',
+					},
+					{
+						name: 'Store Data Point',
+						value: 'storeData',
+						description: 'PUT /rest/persistence/items/{itemName} — stores a state at a given time (e.g., for backfilling).',
+						action: 'Store data point',
+					},
+					{
+						name: 'List Persistence Services',
+						value: 'listServices',
+						description: 'GET /rest/persistence',
+						action: 'List persistence services',
+					},
+				],
+				default: 'getData',
+			},
+			...withLegacyStringParameter(
+				{
+					displayName: 'Item',
+					name: 'itemName',
+					type: 'resourceLocator',
+					required: true,
+					displayOptions: {
+						show: {
+							resource: ['persistence'],
+							persistenceOperation: ['getData', 'storeData'],
+						},
+					},
+					default: { mode: 'list', value: '' },
+					modes: buildLocatorModes('items', 'searchItems', 'Kitchen_Light'),
+					description: 'Item to use: pick it from the list, enter its name, or paste its URL from the openHAB UI.',
+				},
+				{ displayName: 'Item Name', description: 'Exact item name as defined in openHAB.' },
+			),
+			{
+				displayName: 'Item Names or IDs',
+				name: 'persistenceItemNames',
+				type: 'multiOptions',
+				typeOptions: {
+					loadOptionsMethod: 'getItems',
+				},
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['persistence'],
+						persistenceOperation: ['statistics'],
+					},
+				},
+				default: [],
+				description:
+					'Items to compute the statistics for. One output item is returned per item. Choose from the list, or specify names (as a list or comma-separated) using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Service ID',
+				name: 'persistenceServiceId',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['persistence'],
+						persistenceOperation: ['getData', 'statistics', 'storeData'],
+					},
+				},
+				default: '',
+				placeholder: 'rrd4j',
+				description: 'Persistence service to use (e.g., rrd4j, influxdb, jdbc). Leave empty for the default service.',
+			},
+			{
+				displayName: 'Start Time',
+				name: 'persistenceStartTime',
+				type: 'dateTime',
+				displayOptions: {
+					show: {
+						resource: ['persistence'],
+						persistenceOperation: ['getData', 'statistics'],
+					},
+				},
+				default: '',
+				description: 'Start of the period. Leave empty for one day before the end time.',
+			},
+			{
+				displayName: 'End Time',
+				name: 'persistenceEndTime',
+				type: 'dateTime',
+				displayOptions: {
+					show: {
+						resource: ['persistence'],
+						persistenceOperation: ['getData', 'statistics'],
+					},
+				},
+				default: '',
+				description: 'End of the period. Leave empty for now.',
+			},
+			{
+				displayName: 'Page',
+				name: 'persistencePage',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				displayOptions: {
+					show: {
+						resource: ['persistence'],
+						persistenceOperation: ['getData'],
+					},
+				},
+				default: 0,
+				description: 'Page number (starting at 0). Only used when Page Length is set.',
+			},
+			{
+				displayName: 'Page Length',
+				name: 'persistencePageLength',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				displayOptions: {
+					show: {
+						resource: ['persistence'],
+						persistenceOperation: ['getData'],
+					},
+				},
+				default: 0,
+				description: 'Number of data points per page. 0 returns all data points of the period.',
+			},
+			{
+				displayName: 'Include Boundary',
+				name: 'persistenceBoundary',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['persistence'],
+						persistenceOperation: ['getData'],
+					},
+				},
+				default: false,
+				description: 'Whether to include the last value before the start and the first value after the end of the period.',
+			},
+			{
+				displayName: 'Time',
+				name: 'persistenceTime',
+				type: 'dateTime',
+				displayOptions: {
+					show: {
+						resource: ['persistence'],
+						persistenceOperation: ['storeData'],
+					},
+				},
+				default: '',
+				description: 'Timestamp of the data point. Leave empty for now.',
+			},
+			{
+				displayName: 'State',
+				name: 'persistenceState',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['persistence'],
+						persistenceOperation: ['storeData'],
+					},
+				},
+				default: '',
+				placeholder: '21.5 °C',
+				description: 'State to store, in the format accepted by the item (e.g., 21.5 °C, ON, 42).',
+			},
+
+			/* Semantic model operations */
+			{
+				displayName: 'Operation',
+				name: 'semanticOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['semantic'],
+					},
+				},
+				options: [
+					{
+						name: 'Get Model Tree',
+						value: 'tree',
+						description: 'Returns the locations with their sub-locations, equipment and points.',
+						action: 'Get semantic model tree',
+					},
+					{
+						name: 'Find Items',
+						value: 'query',
+						description:
+							'Returns locations, equipment or points matching the criteria with their resolved location and equipment.',
+						action: 'Find items in the semantic model',
+					},
+				],
+				default: 'tree',
+			},
+			{
+				displayName: 'Kind',
+				name: 'semanticKind',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['semantic'],
+						semanticOperation: ['query'],
+					},
+				},
+				options: [
+					{ name: 'Any', value: '' },
+					{ name: 'Equipment', value: 'Equipment' },
+					{ name: 'Location', value: 'Location' },
+					{ name: 'Point', value: 'Point' },
+				],
+				default: 'Point',
+			},
+			{
+				displayName: 'Semantic Class',
+				name: 'semanticClass',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['semantic'],
+						semanticOperation: ['query'],
 					},
 				},
 				default: '',
-				description: 'Exact item name as defined in openHAB.',
+				placeholder: 'Measurement',
+				description:
+					'Semantic tag the item or one of its parent classes has, e.g. Measurement, Switch, Lightbulb, HVAC or Room.',
 			},
 			{
-				displayName: 'Command / State',
-				name: 'command',
+				displayName: 'Property',
+				name: 'semanticProperty',
 				type: 'string',
-				required: true,
 				displayOptions: {
 					show: {
-						resource: ['item'],
-						itemOperation: ['command', 'updateState'],
+						resource: ['semantic'],
+						semanticOperation: ['query'],
 					},
 				},
 				default: '',
-				description:
-					'Examples: ON, OFF, TOGGLE, 22, 50%, UP, DOWN, PLAY, PAUSE. Use device-supported values.',
+				placeholder: 'Temperature',
+				description: 'Property the point relates to, e.g. Temperature, Humidity, Power or Light.',
 			},
 			{
-				displayName: 'Tag Filter',
-				name: 'tagFilter',
+				displayName: 'Location',
+				name: 'semanticLocation',
 				type: 'string',
 				displayOptions: {
 					show: {
-						resource: ['item'],
-						itemOperation: ['list'],
+						resource: ['semantic'],
+						semanticOperation: ['query'],
 					},
 				},
 				default: '',
-				description: 'Comma-separated list of tags to filter items (e.g., Lighting,Kitchen).',
+				placeholder: 'Kitchen',
+				description:
+					'Name or label of a location. Items in locations inside it (e.g., rooms of a floor) are included.',
 			},
 
-			/* Thing operations */
+			/* Voice / audio operations */
 			{
 				displayName: 'Operation',
-				name: 'thingOperation',
+				name: 'voiceOperation',
 				type: 'options',
 				displayOptions: {
 					show: {
-						resource: ['thing'],
+						resource: ['voice'],
 					},
 				},
 				options: [
 					{
-						name: 'List Things',
-						value: 'list',
-						description: 'GET /rest/things',
-						action: 'List things',
+						name: 'Say Text',
+						value: 'say',
+						description: 'POST /rest/voice/say — speaks the text with text-to-speech on an audio sink.',
+						action: 'Say text',
 					},
 					{
-						name: 'Get Thing',
-						value: 'get',
-						description: 'GET /rest/things/{thingUID}',
-						action: 'Get thing',
+						name: 'Interpret Text',
+						value: 'interpret',
+						description:
+							'POST /rest/voice/interpreters — lets a human language interpreter execute a text command (e.g., "turn on the kitchen light").',
+						action: 'Interpret text',
 					},
 					{
-						name: 'Get Status',
-						value: 'status',
-						description: 'GET /rest/things/{thingUID}/status',
-						action: 'Get thing status',
+						name: 'Play Sound',
+						value: 'play',
+						description:
+							'Plays a sound file from the openHAB sounds folder or a URL on an audio sink through a temporary rule, which needs admin permissions. URLs also need the Rule DSL script engine.',
+						action: 'Play sound',
+					},
+					{
+						name: 'List Audio Sinks',
+						value: 'listSinks',
+						description: 'GET /rest/audio/sinks',
+						action: 'List audio sinks',
+					},
+					{
+						name: 'List Voices',
+						value: 'listVoices',
+						description: 'GET /rest/voice/voices',
+						action: 'List voices',
 					},
 				],
-				default: 'list',
+				default: 'say',
 			},
 			{
-				displayName: 'Thing UID',
-				name: 'thingUid',
+				displayName: 'Text',
+				name: 'voiceText',
 				type: 'string',
 				required: true,
+				typeOptions: {
+					rows: 2,
+				},
 				displayOptions: {
 					show: {
-						resource: ['thing'],
-						thingOperation: ['get', 'status'],
+						resource: ['voice'],
+						voiceOperation: ['say', 'interpret'],
+					},
+				},
+				default: '',
+				placeholder: 'The front door is open',
+			},
+			{
+				displayName: 'Voice Name or ID',
+				name: 'voiceId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getVoices',
+				},
+				displayOptions: {
+					show: {
+						resource: ['voice'],
+						voiceOperation: ['say'],
+					},
+				},
+				default: '',
+				description:
+					'Voice to use. Leave empty for the default voice. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Interpreter IDs',
+				name: 'voiceInterpreters',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['voice'],
+						voiceOperation: ['interpret'],
+					},
+				},
+				default: '',
+				placeholder: 'rulehli,system',
+				description: 'Comma-separated human language interpreter IDs. Leave empty for the default interpreter.',
+			},
+			{
+				displayName: 'Source',
+				name: 'voiceSoundSource',
+				type: 'options',
+				options: [
+					{
+						name: 'Sound File',
+						value: 'file',
+						description: 'A file in the openHAB sounds folder',
+					},
+					{
+						name: 'URL',
+						value: 'url',
+						description: 'A sound file or stream (e.g. web radio) URL',
+					},
+				],
+				displayOptions: {
+					show: {
+						resource: ['voice'],
+						voiceOperation: ['play'],
+					},
+				},
+				default: 'file',
+			},
+			{
+				displayName: 'Sound File',
+				name: 'voiceSound',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['voice'],
+						voiceOperation: ['play'],
+						voiceSoundSource: ['file'],
+					},
+				},
+				default: '',
+				placeholder: 'doorbell.mp3',
+				description: 'Name of a sound file in the openHAB sounds folder (conf/sounds).',
+			},
+			{
+				displayName: 'URL',
+				name: 'voiceStreamUrl',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['voice'],
+						voiceOperation: ['play'],
+						voiceSoundSource: ['url'],
+					},
+				},
+				default: '',
+				placeholder: 'http://example.com/stream.mp3',
+				description:
+					'URL of a sound file or stream that openHAB can reach. It is played with the current volume of the sink by a Rule DSL script (playStream), so the Rule DSL script engine has to be available.',
+			},
+			{
+				displayName: 'Audio Sink Name or ID',
+				name: 'voiceSinkId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getAudioSinks',
+				},
+				displayOptions: {
+					show: {
+						resource: ['voice'],
+						voiceOperation: ['say', 'play'],
 					},
 				},
 				default: '',
-				description: 'Full thing UID, e.g., hue:0100:bridge:bulb1.',
+				description:
+					'Sink to play on. Leave empty for the default sink. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Volume',
+				name: 'voiceVolume',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					maxValue: 100,
+				},
+				displayOptions: {
+					show: {
+						resource: ['voice'],
+						voiceOperation: ['say', 'play'],
+					},
+					hide: {
+						voiceSoundSource: ['url'],
+					},
+				},
+				default: 0,
+				description: 'Volume in percent (1-100). 0 keeps the current volume of the sink.',
 			},
 
-			/* Rule operations */
+			/* Configuration operations */
 			{
 				displayName: 'Operation',
-				name: 'ruleOperation',
+				name: 'configOperation',
 				type: 'options',
 				displayOptions: {
 					show: {
-						resource: ['rule'],
+						resource: ['config'],
 					},
 				},
 				options: [
 					{
-						name: 'List Rules',
-						value: 'list',
-						description: 'GET /rest/rules',
-						action: 'List rules',
+						name: 'Export',
+						value: 'export',
+						description:
+							'Exports managed items (with metadata), things, links and rules into one JSON document.',
+						action: 'Export configuration',
 					},
 					{
-						name: 'Run Rule Now',
-						value: 'run',
-						description: 'POST /rest/rules/{ruleUID}/runnow',
-						action: 'Run rule',
+						name: 'Import',
+						value: 'import',
+						description:
+							'Compares an exported document with the server and creates, updates or deletes entities (dry run by default).',
+						action: 'Import configuration',
 					},
-						{
-							name: 'Enable / Disable Rule',
-							value: 'toggle',
-							description: 'POST /rest/rules/{ruleUID}/enable with true/false',
-							action: 'Toggle rule',
-						},
-					],
-				default: 'list',
+					{
+						name: 'Export DSL File',
+						value: 'exportDsl',
+						description: 'Renders all items (with links and metadata) or things as a .items or .things file.',
+						action: 'Export DSL file',
+					},
+					{
+						name: 'Import DSL File',
+						value: 'importDsl',
+						description:
+							'Parses a .items or .things file and creates or updates the items, links, metadata or things (dry run by default).',
+						action: 'Import DSL file',
+					},
+				],
+				default: 'export',
+			},
+			{
+				displayName: 'Entity Types',
+				name: 'configEntityTypes',
+				type: 'multiOptions',
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['export', 'import'],
+					},
+				},
+				options: [
+					{ name: 'Items', value: 'items' },
+					{ name: 'Links', value: 'links' },
+					{ name: 'Rules', value: 'rules' },
+					{ name: 'Things', value: 'things' },
+				],
+				default: ['items', 'things', 'links', 'rules'],
+				description:
+					'Entity types to export or import. Only entities managed through the UI/REST API are included, not those defined in configuration files.',
+			},
+			{
+				displayName: 'File Type',
+				name: 'dslFileType',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['exportDsl', 'importDsl'],
+					},
+				},
+				options: [
+					{
+						name: 'Items (.items)',
+						value: 'items',
+						description: 'Items with channel links and metadata',
+					},
+					{
+						name: 'Things (.things)',
+						value: 'things',
+					},
+				],
+				default: 'items',
+			},
+			{
+				displayName: 'Output as Binary',
+				name: 'configOutputBinary',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['export'],
+					},
+				},
+				default: false,
+				description: 'Whether to output the document as a JSON file in binary data, e.g. to write it to disk or git',
+			},
+			{
+				displayName: 'Document Source',
+				name: 'configImportSource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['import'],
+					},
+				},
+				options: [
+					{
+						name: 'JSON',
+						value: 'json',
+					},
+					{
+						name: 'Binary File',
+						value: 'binary',
+					},
+				],
+				default: 'json',
+			},
+			{
+				displayName: 'Document',
+				name: 'configDocument',
+				type: 'json',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['import'],
+						configImportSource: ['json'],
+					},
+				},
+				default: '{}',
+				description: 'Document as output by Export, e.g. {{ JSON.stringify($json) }}',
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'configBinaryProperty',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['export'],
+						configOutputBinary: [true],
+					},
+				},
+				default: 'data',
+				description: 'Name of the binary property that holds the document.',
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'configBinaryProperty',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['import'],
+						configImportSource: ['binary'],
+					},
+				},
+				default: 'data',
+				description: 'Name of the binary property that holds the document.',
+			},
+			{
+				displayName: 'File Source',
+				name: 'dslSource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['importDsl'],
+					},
+				},
+				options: [
+					{
+						name: 'Text',
+						value: 'text',
+					},
+					{
+						name: 'Binary File',
+						value: 'binary',
+					},
+				],
+				default: 'text',
 			},
 			{
-				displayName: 'Rule UID',
-				name: 'ruleUid',
+				displayName: 'File Content',
+				name: 'dslText',
 				type: 'string',
+				typeOptions: {
+					rows: 10,
+				},
 				required: true,
 				displayOptions: {
 					show: {
-						resource: ['rule'],
-						ruleOperation: ['run', 'toggle'],
+						resource: ['config'],
+						configOperation: ['importDsl'],
+						dslSource: ['text'],
 					},
 				},
 				default: '',
-				description: 'Rule UID as shown in openHAB (e.g., lighting_evening).',
+				placeholder: 'Switch Kitchen_Light "Kitchen Light" <lightbulb> (gKitchen) ["Lighting"] { channel="hue:0210:bridge:bulb1:color" }',
 			},
 			{
-				displayName: 'Enable',
-				name: 'ruleEnable',
+				displayName: 'Binary Property',
+				name: 'configBinaryProperty',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['importDsl'],
+						dslSource: ['binary'],
+					},
+				},
+				default: 'data',
+				description: 'Name of the binary property that holds the file.',
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'configBinaryProperty',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['exportDsl'],
+					},
+				},
+				default: 'data',
+				description: 'Name of the binary property to write the file to.',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'configDryRun',
 				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['rule'],
-						ruleOperation: ['toggle'],
+						resource: ['config'],
+						configOperation: ['import', 'importDsl'],
 					},
 				},
 				default: true,
-				description: 'True to enable, false to disable the rule.',
+				description: 'Whether to only report the changes (create/update/delete/unchanged) without writing them',
+			},
+			{
+				displayName: 'Delete Missing',
+				name: 'configDeleteMissing',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['import'],
+					},
+				},
+				default: false,
+				description:
+					'Whether to delete managed entities of the selected types that are not in the document',
+			},
+			{
+				displayName: 'Delete Missing Metadata',
+				name: 'configDeleteMissingMetadata',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['config'],
+						configOperation: ['import', 'importDsl'],
+					},
+				},
+				default: false,
+				description:
+					'Whether to delete metadata namespaces of imported items that the document or file does not declare. By default, only the declared namespaces are added or updated.',
 			},
 
 			/* System operations */
@@ -401,7 +3377,171 @@ export class openHAB implements INodeType {
 				],
 				default: 'info',
 			},
-		] as INodeProperties[],
+		] as INodeProperties[],
+	};
+
+	methods = {
+		listSearch: {
+			async searchItems(this: ILoadOptionsFunctions, filter?: string): Promise<INodeListSearchResult> {
+				const { baseUrl } = await setupOpenHABApi.call(this);
+				const items = (await openhabApiRequest.call(this, 'GET',
+					'/items',
+					{},
+					{ fields: 'name,label,type,tags' },
+				)) as IDataObject[];
+				return {
+					results: items
+						.filter((item) => matchesFilter(filter, item.name, item.label, item.tags))
+						.sort((a, b) => (a.name as string).localeCompare(b.name as string))
+						.map((item) => ({
+							name: item.label ? `${item.label as string} (${item.name as string})` : (item.name as string),
+							value: item.name as string,
+							url: `${baseUrl}/settings/items/${encodeURIComponent(item.name as string)}`,
+						})),
+				};
+			},
+			async searchGroups(this: ILoadOptionsFunctions, filter?: string): Promise<INodeListSearchResult> {
+				const { baseUrl } = await setupOpenHABApi.call(this);
+				const groups = (await openhabApiRequest.call(this, 'GET',
+					'/items',
+					{},
+					{ type: 'Group', fields: 'name,label,type,tags' },
+				)) as IDataObject[];
+				return {
+					results: groups
+						.filter((group) => matchesFilter(filter, group.name, group.label, group.tags))
+						.sort((a, b) => (a.name as string).localeCompare(b.name as string))
+						.map((group) => ({
+							name: group.label ? `${group.label as string} (${group.name as string})` : (group.name as string),
+							value: group.name as string,
+							url: `${baseUrl}/settings/items/${encodeURIComponent(group.name as string)}`,
+						})),
+				};
+			},
+			async searchThings(this: ILoadOptionsFunctions, filter?: string): Promise<INodeListSearchResult> {
+				const { baseUrl } = await setupOpenHABApi.call(this);
+				const things = (await openhabApiRequest.call(this, 'GET',
+					'/things',
+					{},
+					{ summary: true },
+				)) as IDataObject[];
+				return {
+					results: things
+						.filter((thing) => matchesFilter(filter, thing.UID, thing.label))
+						.sort((a, b) => ((a.label as string) ?? '').localeCompare((b.label as string) ?? ''))
+						.map((thing) => ({
+							name: thing.label ? `${thing.label as string} (${thing.UID as string})` : (thing.UID as string),
+							value: thing.UID as string,
+							url: `${baseUrl}/settings/things/${encodeURIComponent(thing.UID as string)}`,
+						})),
+				};
+			},
+			async searchChannels(this: ILoadOptionsFunctions, filter?: string): Promise<INodeListSearchResult> {
+				const things = (await openhabApiRequest.call(this, 'GET', '/things', {}, {})) as IDataObject[];
+				const channels = things.flatMap((thing) =>
+					((thing.channels as IDataObject[] | undefined) ?? []).map((channel) => ({
+						uid: channel.uid as string,
+						label: thing.label ? `${thing.label as string} – ${(channel.label as string) ?? (channel.id as string)}` : '',
+					})),
+				);
+				return {
+					results: channels
+						.filter((channel) => matchesFilter(filter, channel.uid, channel.label))
+						.sort((a, b) => a.uid.localeCompare(b.uid))
+						.map((channel) => ({
+							name: channel.label ? `${channel.label} (${channel.uid})` : channel.uid,
+							value: channel.uid,
+						})),
+				};
+			},
+			async searchInbox(this: ILoadOptionsFunctions, filter?: string): Promise<INodeListSearchResult> {
+				const entries = (await openhabApiRequest.call(this, 'GET', '/inbox', {}, {})) as IDataObject[];
+				return {
+					results: entries
+						.filter((entry) => matchesFilter(filter, entry.thingUID, entry.label))
+						.sort((a, b) => ((a.label as string) ?? '').localeCompare((b.label as string) ?? ''))
+						.map((entry) => ({
+							name: entry.label
+								? `${entry.label as string} (${entry.thingUID as string})`
+								: (entry.thingUID as string),
+							value: entry.thingUID as string,
+						})),
+				};
+			},
+			async searchRules(this: ILoadOptionsFunctions, filter?: string): Promise<INodeListSearchResult> {
+				const { baseUrl } = await setupOpenHABApi.call(this);
+				const rules = (await openhabApiRequest.call(this, 'GET',
+					'/rules',
+					{},
+					{ summary: true },
+				)) as IDataObject[];
+				return {
+					results: rules
+						.filter((rule) => matchesFilter(filter, rule.uid, rule.name, rule.tags))
+						.sort((a, b) => ((a.name as string) ?? '').localeCompare((b.name as string) ?? ''))
+						.map((rule) => ({
+							name: rule.name ? `${rule.name as string} (${rule.uid as string})` : (rule.uid as string),
+							value: rule.uid as string,
+							url: `${baseUrl}/settings/rules/${encodeURIComponent(rule.uid as string)}`,
+						})),
+				};
+			},
+		},
+		loadOptions: {
+			async getItems(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const items = (await openhabApiRequest.call(this, 'GET',
+					'/items',
+					{},
+					{ fields: 'name,label' },
+				)) as IDataObject[];
+				return items
+					.sort((a, b) => (a.name as string).localeCompare(b.name as string))
+					.map((item) => ({
+						name: item.label ? `${item.label as string} (${item.name as string})` : (item.name as string),
+						value: item.name as string,
+					}));
+			},
+			async getAudioSinks(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const sinks = (await openhabApiRequest.call(this, 'GET', '/audio/sinks', {}, {})) as IDataObject[];
+				return [
+					{ name: 'Default Sink', value: '' },
+					...sinks.map((sink) => ({
+						name: (sink.label as string | undefined) ?? (sink.id as string),
+						value: sink.id as string,
+						description: sink.id as string,
+					})),
+				];
+			},
+			async getThingActions(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const actions = await getSelectedThingActions.call(this);
+				return actions.map((action) => ({
+					name: (action.label as string | undefined) ?? (action.actionUid as string),
+					value: action.actionUid as string,
+					description: (action.description as string | undefined) ?? (action.actionUid as string),
+				}));
+			},
+			async getThingActionInputs(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const actionUid = this.getCurrentNodeParameter('actionUid') as string | undefined;
+				const action = (await getSelectedThingActions.call(this)).find((entry) => entry.actionUid === actionUid);
+				const inputs = (action?.inputs as ThingActionInput[] | undefined) ?? [];
+				return inputs.map((input) => ({
+					name: `${(input.label as string | undefined) ?? input.name}${input.required ? ' (Required)' : ''}`,
+					value: input.name,
+					description: `${input.name}: ${input.type}`,
+				}));
+			},
+			async getVoices(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const voices = (await openhabApiRequest.call(this, 'GET', '/voice/voices', {}, {})) as IDataObject[];
+				return [
+					{ name: 'Default Voice', value: '' },
+					...voices.map((voice) => ({
+						name: voice.locale ? `${voice.label as string} (${voice.locale as string})` : (voice.label as string),
+						value: voice.id as string,
+						description: voice.id as string,
+					})),
+				];
+			},
+		},
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
@@ -419,9 +3559,24 @@ export class openHAB implements INodeType {
 						? (this.getNodeParameter('thingOperation', i) as string)
 						: resource === 'rule'
 						? (this.getNodeParameter('ruleOperation', i) as string)
+						: resource === 'action'
+						? (this.getNodeParameter('actionOperation', i) as string)
+						: resource === 'inbox'
+						? (this.getNodeParameter('inboxOperation', i) as string)
+						: resource === 'link'
+						? (this.getNodeParameter('linkOperation', i) as string)
+						: resource === 'persistence'
+						? (this.getNodeParameter('persistenceOperation', i) as string)
+						: resource === 'semantic'
+						? (this.getNodeParameter('semanticOperation', i) as string)
+						: resource === 'voice'
+						? (this.getNodeParameter('voiceOperation', i) as string)
+						: resource === 'config'
+						? (this.getNodeParameter('configOperation', i) as string)
 						: (this.getNodeParameter('systemOperation', i) as string);
 
 				let responseData: IDataObject | IDataObject[] | string | undefined;
+				let binaryData: IBinaryKeyData | undefined;
 
 				if (resource === 'item') {
 					if (operation === 'list') {
@@ -435,8 +3590,214 @@ export class openHAB implements INodeType {
 							{},
 							qs,
 						);
+					} else if (operation === 'setMetadataByTag') {
+						const tagFilter = (this.getNodeParameter('tagFilter', i, '') as string).trim();
+						if (!tagFilter) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'Tag Filter is required to select the items to update.',
+								{ itemIndex: i },
+							);
+						}
+						const namespace = this.getNodeParameter('metadataNamespace', i) as string;
+						const payload = getMetadataPayload.call(this, i);
+						const matchingItems = (await openhabApiRequest.call(this, 'GET',
+							'/items',
+							{},
+							{ tags: tagFilter, fields: 'name' },
+						)) as IDataObject[];
+						const results: IDataObject[] = [];
+						for (const matchingItem of matchingItems) {
+							const itemName = matchingItem.name as string;
+							try {
+								const res = (await openhabApiRequest.call(this, 'PUT',
+									`/items/${encodeURIComponent(itemName)}/metadata/${encodeURIComponent(namespace)}`,
+									payload,
+									{},
+									{ fullResponse: true },
+								)) as IDataObject;
+								results.push({
+									item: itemName,
+									namespace,
+									success: true,
+									statusCode: res.statusCode,
+								});
+							} catch (error) {
+								results.push({
+									item: itemName,
+									namespace,
+									success: false,
+									error: (error as Error).message,
+								});
+							}
+						}
+						responseData = results;
+					} else if (operation === 'bulkCommand') {
+						const commands = await getBulkCommands.call(this, i);
+						const validate = this.getNodeParameter('validateCommand', i, false) as boolean;
+						const results = await dispatchAll(
+							commands,
+							{
+								concurrency: this.getNodeParameter('bulkConcurrency', i, 1) as number,
+								delayMs: this.getNodeParameter('bulkDelay', i, 0) as number,
+							},
+							async ({ item, command: input }) => {
+								const command = validate
+									? await validateItemValue.call(this, item, input, 'command', i)
+									: input;
+								const res = (await openhabApiRequest.call(this, 'POST',
+									`/items/${encodeURIComponent(item)}`,
+									command,
+									{},
+									{ plainText: true, fullResponse: true, extraHeaders: { 'X-OpenHAB-Source': source } },
+								)) as IDataObject;
+								return { command, ...(command !== input ? { input } : {}), statusCode: res.statusCode };
+							},
+						);
+						responseData = results.map((result, index) =>
+							result.success
+								? { item: commands[index].item, success: true, ...result.value }
+								: {
+										item: commands[index].item,
+										command: commands[index].command,
+										success: false,
+										error: result.error.message,
+								  },
+						);
+					} else if (operation === 'snapshot') {
+						const itemNames = toStringList(this.getNodeParameter('sceneItemNames', i, []));
+						const tagFilter = (this.getNodeParameter('sceneTagFilter', i, '') as string).trim();
+						const group = (this.getNodeParameter('sceneGroup', i, '', { extractValue: true }) as string).trim();
+						if (tagFilter || group) {
+							itemNames.push(...(await selectItemNames.call(this, tagFilter, group)));
+						}
+						if (itemNames.length === 0) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'Enter item names, a tag filter or a group to select the items.',
+								{ itemIndex: i },
+							);
+						}
+						const allItems = (await openhabApiRequest.call(this, 'GET',
+							'/items',
+							{},
+							{ fields: 'name,type,state' },
+						)) as Array<{ name: string; type?: string; state?: string }>;
+						const byName = new Map(allItems.map((item) => [item.name, item]));
+						const missing = itemNames.filter((name) => !byName.has(name));
+						if (missing.length > 0) {
+							throw new NodeOperationError(this.getNode(), `Items not found: ${missing.join(', ')}`, {
+								itemIndex: i,
+							});
+						}
+						responseData = createScene(
+							[...new Set(itemNames)].map((name) => byName.get(name)!),
+							(this.getNodeParameter('sceneName', i, '') as string).trim() || undefined,
+						);
+					} else if (operation === 'restoreScene') {
+						let scene: Scene;
+						try {
+							scene = parseScene(parseJsonParameter.call(this, this.getNodeParameter('scene', i), 'Scene'));
+						} catch (error) {
+							if (error instanceof NodeOperationError) {
+								throw error;
+							}
+							throw new NodeOperationError(this.getNode(), `Invalid Scene: ${(error as Error).message}`, {
+								itemIndex: i,
+							});
+						}
+						const mode = this.getNodeParameter('restoreMode', i, 'command') as 'command' | 'state';
+						const allItems = (await openhabApiRequest.call(this, 'GET',
+							'/items',
+							{},
+							{ fields: 'name,state' },
+						)) as Array<{ name: string; state: string }>;
+						const steps = planRestore(scene, new Map(allItems.map((item) => [item.name, item.state])), mode);
+						const toRestore = steps.filter((step) => step.action === 'restore');
+						const results = await dispatchAll(
+							toRestore,
+							{
+								concurrency: this.getNodeParameter('bulkConcurrency', i, 1) as number,
+								delayMs: this.getNodeParameter('bulkDelay', i, 0) as number,
+							},
+							async (step) =>
+								(await openhabApiRequest.call(this, step.mode === 'command' ? 'POST' : 'PUT',
+									`/items/${encodeURIComponent(step.item)}${step.mode === 'command' ? '' : '/state'}`,
+									step.state,
+									{},
+									{
+										plainText: true,
+										fullResponse: true,
+										...(step.mode === 'command' ? { extraHeaders: { 'X-OpenHAB-Source': source } } : {}),
+									},
+								)) as IDataObject,
+						);
+						responseData = steps.map((step) => {
+							if (step.action !== 'restore') {
+								return step;
+							}
+							const result = results[toRestore.indexOf(step)];
+							return result.success
+								? { ...step, action: 'restored', statusCode: result.value.statusCode }
+								: { ...step, action: 'failed', error: result.error.message };
+						});
+					} else if (operation === 'groupMembers') {
+						const groupName = this.getNodeParameter('groupName', i, '', { extractValue: true }) as string;
+						const recursive = this.getNodeParameter('membersRecursive', i, false) as boolean;
+						const members = collectMembers(await fetchGroup.call(this, groupName, recursive), {
+							recursive,
+							includeGroups: true,
+						});
+						responseData = members.map((member) => ({
+							name: member.name,
+							label: member.label,
+							type: member.type,
+							state: member.state,
+							group: member.group,
+						}));
+					} else if (operation === 'groupState') {
+						const groupName = this.getNodeParameter('groupName', i, '', { extractValue: true }) as string;
+						const group = await fetchGroup.call(this, groupName, true);
+						if (group.type !== 'Group') {
+							throw new NodeOperationError(this.getNode(), `Item ${groupName} is not a group.`, { itemIndex: i });
+						}
+						// Aggregation functions are calculated over all non-group members, including nested ones
+						const members = collectMembers(group, { recursive: true, includeGroups: false });
+						const groupFunction = group.function as IDataObject | undefined;
+						responseData = {
+							group: groupName,
+							label: group.label ?? '',
+							groupType: group.groupType ?? null,
+							function: (groupFunction?.name as string | undefined) ?? null,
+							functionParams: (groupFunction?.params as string[] | undefined) ?? [],
+							state: group.state,
+							...(group.transformedState !== undefined ? { transformedState: group.transformedState } : {}),
+							directMemberCount: ((group.members as IDataObject[] | undefined) ?? []).length,
+							memberCount: members.length,
+							memberStates: countMemberStates(members),
+						};
+					} else if (operation === 'upsertMany') {
+						const definitions = parseJsonParameter.call(
+							this,
+							this.getNodeParameter('itemDefinitions', i),
+							'Item Definitions',
+						);
+						if (!Array.isArray(definitions)) {
+							throw new NodeOperationError(this.getNode(), 'Item Definitions must be a JSON array.', {
+								itemIndex: i,
+							});
+						}
+						const results: IDataObject[] = [];
+						for (const raw of definitions as IDataObject[]) {
+							try {
+								results.push(await upsertItem.call(this, buildItemDefinition.call(this, raw), true));
+							} catch (error) {
+								results.push({ item: raw?.name ?? null, action: 'failed', error: (error as Error).message });
+							}
+						}
+						responseData = results;
 					} else {
-						const itemName = this.getNodeParameter('itemName', i) as string;
+						const itemName = this.getNodeParameter('itemName', i, '', { extractValue: true }) as string;
 
 						if (operation === 'get') {
 							responseData = await openhabApiRequest.call(this, 'GET',
@@ -445,44 +3806,165 @@ export class openHAB implements INodeType {
 								{},
 							);
 						} else if (operation === 'state') {
-							const state = await openhabApiRequest.call(this, 'GET',
+							const stateOutput = this.getNodeParameter('stateOutput', i, 'raw') as string;
+							if (stateOutput === 'structured') {
+								const itemData = (await openhabApiRequest.call(this, 'GET',
+									`/items/${encodeURIComponent(itemName)}`,
+									{},
+									{},
+								)) as IDataObject;
+								responseData = toStructuredState(itemData);
+							} else {
+								const state = await openhabApiRequest.call(this, 'GET',
+									`/items/${encodeURIComponent(itemName)}/state`,
+									{},
+									{},
+									{ plainText: true },
+								);
+								responseData = { item: itemName, state };
+							}
+						} else if (operation === 'command') {
+							const input = this.getNodeParameter('command', i) as string;
+							const command = (this.getNodeParameter('validateCommand', i, false) as boolean)
+								? await validateItemValue.call(this, itemName, input, 'command', i)
+								: input;
+							const reportMembers = this.getNodeParameter('reportMemberChanges', i, false) as boolean;
+							let membersBefore: GroupMember[] = [];
+							if (reportMembers) {
+								const group = await fetchGroup.call(this, itemName, true);
+								if (group.type !== 'Group') {
+									throw new NodeOperationError(
+										this.getNode(),
+										`Item ${itemName} is not a group, so it has no members to report.`,
+										{ itemIndex: i, description: 'Disable Report Changed Group Members for items that are not groups.' },
+									);
+								}
+								membersBefore = collectMembers(group, { recursive: true, includeGroups: false });
+							}
+							const sendCommand = async () =>
+								(await openhabApiRequest.call(this, 'POST',
+									`/items/${encodeURIComponent(itemName)}`,
+									command,
+									{},
+									{ plainText: true, fullResponse: true, extraHeaders: { 'X-OpenHAB-Source': source } },
+								)) as IDataObject;
+							if (this.getNodeParameter('waitForConfirmation', i, false) as boolean) {
+								responseData = {
+									item: itemName,
+									command,
+									...(command !== input ? { input } : {}),
+									...(await sendCommandAndConfirm.call(this, itemName, command, sendCommand, i)),
+								};
+							} else {
+								const res = await sendCommand();
+								responseData = {
+									item: itemName,
+									command,
+									...(command !== input ? { input } : {}),
+									statusCode: res.statusCode,
+								};
+							}
+							if (reportMembers) {
+								await sleep(this.getNodeParameter('memberSettleTime', i, 1000) as number);
+								const membersAfter = collectMembers(await fetchGroup.call(this, itemName, true), {
+									recursive: true,
+									includeGroups: false,
+								});
+								responseData = {
+									...responseData,
+									changedMembers: getChangedMembers(membersBefore, membersAfter),
+								};
+							}
+						} else if (operation === 'updateState') {
+							const input = this.getNodeParameter('command', i) as string;
+							const state = (this.getNodeParameter('validateCommand', i, false) as boolean)
+								? await validateItemValue.call(this, itemName, input, 'state', i)
+								: input;
+							const res = (await openhabApiRequest.call(this, 'PUT',
 								`/items/${encodeURIComponent(itemName)}/state`,
+								state,
+								{},
+								{ plainText: true, fullResponse: true },
+							)) as IDataObject;
+							responseData = {
+								item: itemName,
+								state,
+								...(state !== input ? { input } : {}),
+								statusCode: res.statusCode,
+							};
+						} else if (operation === 'addToGroup' || operation === 'removeFromGroup') {
+							const groupName = this.getNodeParameter('groupName', i, '', { extractValue: true }) as string;
+							const res = (await openhabApiRequest.call(this, operation === 'addToGroup' ? 'PUT' : 'DELETE',
+								`/items/${encodeURIComponent(groupName)}/members/${encodeURIComponent(itemName)}`,
 								{},
 								{},
-								{ plainText: true },
-							);
-							responseData = { item: itemName, state };
-						} else if (operation === 'command') {
-							const command = this.getNodeParameter('command', i) as string;
-							const res = (await openhabApiRequest.call(this, 'POST',
+								{ fullResponse: true },
+							)) as IDataObject;
+							responseData = {
+								item: itemName,
+								group: groupName,
+								member: operation === 'addToGroup',
+								statusCode: res.statusCode,
+							};
+						} else if (operation === 'upsert') {
+							const itemType = this.getNodeParameter('itemType', i) as string;
+							const dimension = (this.getNodeParameter('itemDimension', i, '') as string).trim();
+							const definition = buildItemDefinition.call(this, {
+								name: itemName,
+								type: itemType === 'Number' && dimension ? `Number:${dimension}` : itemType,
+								label: this.getNodeParameter('itemLabel', i, '') as string,
+								category: this.getNodeParameter('itemCategory', i, '') as string,
+								groupNames: this.getNodeParameter('itemGroupNames', i, '') as string,
+								tags: this.getNodeParameter('itemTags', i, '') as string,
+							});
+							responseData = await upsertItem.call(this, definition, false);
+						} else if (operation === 'delete') {
+							const res = (await openhabApiRequest.call(this, 'DELETE',
 								`/items/${encodeURIComponent(itemName)}`,
-								command,
 								{},
-								{ plainText: true, fullResponse: true, extraHeaders: { 'X-OpenHAB-Source': source } },
+								{},
+								{ fullResponse: true },
 							)) as IDataObject;
 							responseData = {
 								item: itemName,
-								command,
+								deleted: true,
 								statusCode: res.statusCode,
 							};
-						} else if (operation === 'updateState') {
-							const command = this.getNodeParameter('command', i) as string;
+						} else if (operation === 'setMetadata') {
+							const namespace = this.getNodeParameter('metadataNamespace', i) as string;
+							const payload = getMetadataPayload.call(this, i);
 							const res = (await openhabApiRequest.call(this, 'PUT',
-								`/items/${encodeURIComponent(itemName)}/state`,
-								command,
+								`/items/${encodeURIComponent(itemName)}/metadata/${encodeURIComponent(namespace)}`,
+								payload,
 								{},
-								{ plainText: true, fullResponse: true },
+								{ fullResponse: true },
+							)) as IDataObject;
+							responseData = {
+								item: itemName,
+								namespace,
+								...payload,
+								statusCode: res.statusCode,
+							};
+						} else if (operation === 'deleteMetadata') {
+							const namespace = this.getNodeParameter('metadataNamespace', i) as string;
+							const res = (await openhabApiRequest.call(this, 'DELETE',
+								`/items/${encodeURIComponent(itemName)}/metadata/${encodeURIComponent(namespace)}`,
+								{},
+								{},
+								{ fullResponse: true },
 							)) as IDataObject;
 							responseData = {
 								item: itemName,
-								state: command,
+								namespace,
+								deleted: true,
 								statusCode: res.statusCode,
 							};
 						} else if (operation === 'metadata') {
+							const selector = (this.getNodeParameter('metadataSelector', i, '.*') as string).trim();
 							const itemData = (await openhabApiRequest.call(this, 'GET',
 								`/items/${encodeURIComponent(itemName)}`,
 								{},
-								{ metadata: '.*' },
+								{ metadata: selector || '.*' },
 							)) as IDataObject;
 							responseData = {
 								item: itemName,
@@ -498,7 +3980,7 @@ export class openHAB implements INodeType {
 							{},
 						);
 					} else {
-						const thingUid = this.getNodeParameter('thingUid', i) as string;
+						const thingUid = this.getNodeParameter('thingUid', i, '', { extractValue: true }) as string;
 						if (operation === 'get') {
 							responseData = await openhabApiRequest.call(this, 'GET',
 								`/things/${encodeURIComponent(thingUid)}`,
@@ -511,21 +3993,134 @@ export class openHAB implements INodeType {
 								{},
 								{},
 							);
+						} else if (operation === 'toggle') {
+							const enable = this.getNodeParameter('thingEnable', i) as boolean;
+							const res = (await openhabApiRequest.call(this, 'PUT',
+								`/things/${encodeURIComponent(thingUid)}/enable`,
+								enable.toString(),
+								{},
+								{ plainText: true, fullResponse: true, extraHeaders: { Accept: 'application/json' } },
+							)) as IDataObject;
+							responseData = {
+								thing: thingUid,
+								enabled: enable,
+								statusCode: res.statusCode,
+							};
+						} else if (operation === 'updateConfig') {
+							let configuration = getJsonObjectParameter.call(this, 'thingConfiguration', 'Configuration', i);
+							if (this.getNodeParameter('thingValidateConfiguration', i, true) as boolean) {
+								configuration = await validateThingConfiguration.call(this, thingUid, configuration, i);
+							}
+							responseData = (await openhabApiRequest.call(this, 'PUT',
+								`/things/${encodeURIComponent(thingUid)}/config`,
+								configuration,
+								{},
+							)) as IDataObject;
+						} else if (operation === 'update') {
+							const thing = (await openhabApiRequest.call(this, 'GET',
+								`/things/${encodeURIComponent(thingUid)}`,
+								{},
+								{},
+							)) as IDataObject;
+							const label = (this.getNodeParameter('thingLabel', i, '') as string).trim();
+							const location = (this.getNodeParameter('thingLocation', i, '') as string).trim();
+							responseData = (await openhabApiRequest.call(this, 'PUT',
+								`/things/${encodeURIComponent(thingUid)}`,
+								{
+									...toThingDefinition(thing),
+									label: label || thing.label,
+									location: location || thing.location,
+								},
+								{},
+							)) as IDataObject;
+						} else if (operation === 'delete') {
+							const force = this.getNodeParameter('thingForce', i, false) as boolean;
+							const res = (await openhabApiRequest.call(this, 'DELETE',
+								`/things/${encodeURIComponent(thingUid)}`,
+								{},
+								{ force },
+								{ fullResponse: true },
+							)) as IDataObject;
+							responseData = {
+								thing: thingUid,
+								deleted: res.statusCode === 200,
+								pendingRemoval: res.statusCode === 202,
+								statusCode: res.statusCode,
+							};
 						}
 					}
 				} else if (resource === 'rule') {
 					if (operation === 'list') {
-						responseData = await openhabApiRequest.call(this, 'GET',
+						const qs: IDataObject = {};
+						const tagFilter = (this.getNodeParameter('ruleTagFilter', i, '') as string).trim();
+						const prefix = (this.getNodeParameter('rulePrefix', i, '') as string).trim();
+						if (tagFilter) {
+							qs.tags = tagFilter;
+						}
+						if (prefix) {
+							qs.prefix = prefix;
+						}
+						if (this.getNodeParameter('ruleSummary', i, false) as boolean) {
+							qs.summary = true;
+						}
+						const rules = (await openhabApiRequest.call(this, 'GET',
 							'/rules',
 							{},
+							qs,
+						)) as IDataObject[];
+						responseData = rules.map(withRuleStatus);
+					} else if (operation === 'create') {
+						const definition = getJsonObjectParameter.call(this, 'ruleDefinition', 'Rule Definition', i);
+						const res = (await openhabApiRequest.call(this, 'POST',
+							'/rules',
+							definition,
 							{},
-						);
+							{ fullResponse: true },
+						)) as IDataObject;
+						responseData = {
+							rule: definition.uid as string | undefined,
+							created: true,
+							statusCode: res.statusCode,
+						};
 					} else {
-						const ruleUid = this.getNodeParameter('ruleUid', i) as string;
-						if (operation === 'run') {
+						const ruleUid = this.getNodeParameter('ruleUid', i, '', { extractValue: true }) as string;
+						if (operation === 'get') {
+							const rule = (await openhabApiRequest.call(this, 'GET',
+								`/rules/${encodeURIComponent(ruleUid)}`,
+								{},
+								{},
+							)) as IDataObject;
+							responseData = withRuleStatus(rule);
+						} else if (operation === 'update') {
+							const definition = getJsonObjectParameter.call(this, 'ruleDefinition', 'Rule Definition', i);
+							const res = (await openhabApiRequest.call(this, 'PUT',
+								`/rules/${encodeURIComponent(ruleUid)}`,
+								{ ...definition, uid: ruleUid },
+								{},
+								{ fullResponse: true },
+							)) as IDataObject;
+							responseData = {
+								rule: ruleUid,
+								updated: true,
+								statusCode: res.statusCode,
+							};
+						} else if (operation === 'delete') {
+							const res = (await openhabApiRequest.call(this, 'DELETE',
+								`/rules/${encodeURIComponent(ruleUid)}`,
+								{},
+								{},
+								{ fullResponse: true },
+							)) as IDataObject;
+							responseData = {
+								rule: ruleUid,
+								deleted: true,
+								statusCode: res.statusCode,
+							};
+						} else if (operation === 'run') {
+							const context = getJsonObjectParameter.call(this, 'ruleContext', 'Context', i);
 							const res = (await openhabApiRequest.call(this, 'POST',
 								`/rules/${encodeURIComponent(ruleUid)}/runnow`,
-								{},
+								context,
 								{},
 								{ fullResponse: true },
 							)) as IDataObject;
@@ -548,6 +4143,509 @@ export class openHAB implements INodeType {
 							};
 						}
 					}
+				} else if (resource === 'action') {
+					const thingUid = this.getNodeParameter('actionThingUid', i, '', { extractValue: true }) as string;
+					const actions = (await openhabApiRequest.call(this, 'GET',
+						`/actions/${encodeURIComponent(thingUid)}`,
+						{},
+						{},
+					)) as IDataObject[];
+					if (operation === 'list') {
+						responseData = actions.map((action) => ({ thing: thingUid, ...action }));
+					} else if (operation === 'invoke') {
+						const actionUid = this.getNodeParameter('actionUid', i) as string;
+						const action = actions.find((entry) => entry.actionUid === actionUid);
+						if (!action) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Thing ${thingUid} has no action "${actionUid}". Use List Actions to get the available action UIDs.`,
+								{ itemIndex: i },
+							);
+						}
+						const entries = this.getNodeParameter('actionInputs.input', i, []) as IDataObject[];
+						const values: Record<string, unknown> = {};
+						for (const entry of entries) {
+							values[entry.name as string] = entry.value ?? '';
+						}
+						const { inputs, errors } = convertActionInputs(
+							values,
+							(action.inputs as ThingActionInput[] | undefined) ?? [],
+						);
+						if (errors.length > 0) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Invalid inputs for action "${actionUid}" of thing ${thingUid}`,
+								{ description: errors.join('; '), itemIndex: i },
+							);
+						}
+						const output = (await openhabApiRequest.call(this, 'POST',
+							`/actions/${encodeURIComponent(thingUid)}/${encodeURIComponent(actionUid)}`,
+							inputs,
+							{},
+						)) as IDataObject | undefined;
+						responseData = {
+							thing: thingUid,
+							action: actionUid,
+							inputs,
+							output: output ?? {},
+						};
+					}
+				} else if (resource === 'inbox') {
+					if (operation === 'list') {
+						const bindingFilter = (this.getNodeParameter('inboxBindingFilter', i, '') as string).trim();
+						const thingTypeFilter = (this.getNodeParameter('inboxThingTypeFilter', i, '') as string).trim();
+						const includeIgnored = this.getNodeParameter('inboxIncludeIgnored', i, true) as boolean;
+						const entries = (await openhabApiRequest.call(this, 'GET',
+							'/inbox',
+							{},
+							{ includeIgnored },
+						)) as IDataObject[];
+						responseData = entries.filter(
+							(entry) =>
+								(!bindingFilter || (entry.thingUID as string).startsWith(`${bindingFilter}:`)) &&
+								(!thingTypeFilter || entry.thingTypeUID === thingTypeFilter),
+						);
+					} else if (operation === 'listBindings') {
+						const bindings = await openhabApiRequest.call(this, 'GET',
+							'/discovery',
+							{},
+							{},
+						);
+						responseData = (Array.isArray(bindings) ? bindings : []).map((binding) => ({ binding: String(binding) }));
+					} else if (operation === 'scan') {
+						const bindingId = this.getNodeParameter('inboxBindingId', i) as string;
+						const timeout = await openhabApiRequest.call(this, 'POST',
+							`/discovery/bindings/${encodeURIComponent(bindingId)}/scan`,
+							'',
+							{},
+							{ plainText: true },
+						);
+						responseData = {
+							binding: bindingId,
+							timeout: Number(timeout),
+						};
+					} else {
+						const thingUid = this.getNodeParameter('inboxThingUid', i, '', { extractValue: true }) as string;
+						if (operation === 'approve') {
+							const label = (this.getNodeParameter('inboxLabel', i, '') as string).trim();
+							const newThingId = (this.getNodeParameter('inboxNewThingId', i, '') as string).trim();
+							const qs: IDataObject = {};
+							if (newThingId) {
+								qs.newThingId = newThingId;
+							}
+							const res = (await openhabApiRequest.call(this, 'POST',
+								`/inbox/${encodeURIComponent(thingUid)}/approve`,
+								label,
+								qs,
+								{ plainText: true, fullResponse: true, extraHeaders: { Accept: 'application/json' } },
+							)) as IDataObject;
+							responseData = {
+								inboxThing: thingUid,
+								label: label || undefined,
+								newThingId: newThingId || undefined,
+								statusCode: res.statusCode,
+							};
+						} else if (operation === 'remove') {
+							const res = (await openhabApiRequest.call(this, 'DELETE',
+								`/inbox/${encodeURIComponent(thingUid)}`,
+								{},
+								{},
+								{ fullResponse: true },
+							)) as IDataObject;
+							responseData = {
+								inboxThing: thingUid,
+								removed: true,
+								statusCode: res.statusCode,
+							};
+						} else {
+							const res = (await openhabApiRequest.call(this, 'POST',
+								`/inbox/${encodeURIComponent(thingUid)}/${operation}`,
+								{},
+								{},
+								{ fullResponse: true },
+							)) as IDataObject;
+							responseData = {
+								inboxThing: thingUid,
+								ignored: operation === 'ignore',
+								statusCode: res.statusCode,
+							};
+						}
+					}
+				} else if (resource === 'link') {
+					if (operation === 'list') {
+						const qs: IDataObject = {};
+						const itemFilter = (this.getNodeParameter('linkItemFilter', i, '') as string).trim();
+						const channelFilter = (this.getNodeParameter('linkChannelFilter', i, '') as string).trim();
+						if (itemFilter) {
+							qs.itemName = itemFilter;
+						}
+						if (channelFilter) {
+							qs.channelUID = channelFilter;
+						}
+						responseData = await openhabApiRequest.call(this, 'GET',
+							'/links',
+							{},
+							qs,
+						);
+					} else if (operation === 'orphans') {
+						responseData = await openhabApiRequest.call(this, 'GET',
+							'/links/orphans',
+							{},
+							{},
+						);
+					} else {
+						const itemName = this.getNodeParameter('linkItemName', i, '', { extractValue: true }) as string;
+						const channelUid = this.getNodeParameter('linkChannelUid', i, '', { extractValue: true }) as string;
+						const path = `/links/${encodeURIComponent(itemName)}/${encodeURIComponent(channelUid)}`;
+						if (operation === 'get') {
+							responseData = await openhabApiRequest.call(this, 'GET', path, {}, {});
+						} else if (operation === 'upsert') {
+							const profile = (this.getNodeParameter('linkProfile', i, '') as string).trim();
+							const configuration: IDataObject = {
+								...getJsonObjectParameter.call(this, 'linkProfileConfiguration', 'Profile Configuration', i),
+							};
+							if (profile) {
+								configuration.profile = profile;
+							}
+							const res = (await openhabApiRequest.call(this, 'PUT',
+								path,
+								{ itemName, channelUID: channelUid, configuration },
+								{},
+								{ fullResponse: true },
+							)) as IDataObject;
+							responseData = {
+								item: itemName,
+								channel: channelUid,
+								configuration,
+								statusCode: res.statusCode,
+							};
+						} else if (operation === 'delete') {
+							const res = (await openhabApiRequest.call(this, 'DELETE', path, {}, {}, { fullResponse: true })) as IDataObject;
+							responseData = {
+								item: itemName,
+								channel: channelUid,
+								deleted: true,
+								statusCode: res.statusCode,
+							};
+						}
+					}
+				} else if (resource === 'persistence') {
+					if (operation === 'listServices') {
+						responseData = await openhabApiRequest.call(this, 'GET',
+							'/persistence',
+							{},
+							{},
+						);
+					} else {
+						const serviceId = (this.getNodeParameter('persistenceServiceId', i, '') as string).trim();
+						const qs: IDataObject = {};
+						if (serviceId) {
+							qs.serviceId = serviceId;
+						}
+
+						if (operation === 'statistics') {
+							const itemNames = toStringList(this.getNodeParameter('persistenceItemNames', i));
+							const endTime =
+								getDateTimeParameter.call(this, 'persistenceEndTime', 'End Time', i) ?? new Date().toISOString();
+							// The statistics need the period bounds, so the node applies the default period itself
+							const startTime =
+								getDateTimeParameter.call(this, 'persistenceStartTime', 'Start Time', i) ??
+								new Date(Date.parse(endTime) - 24 * 60 * 60 * 1000).toISOString();
+							qs.starttime = startTime;
+							qs.endtime = endTime;
+							qs.boundary = true;
+
+							const results: IDataObject[] = [];
+							for (const itemName of itemNames) {
+								const history = (await openhabApiRequest.call(this, 'GET',
+									`/persistence/items/${encodeURIComponent(itemName)}`,
+									{},
+									qs,
+								)) as IDataObject;
+								results.push({
+									item: itemName,
+									serviceId: serviceId || undefined,
+									start: startTime,
+									end: endTime,
+									...computeStatistics(getDataPoints(history), Date.parse(startTime), Date.parse(endTime)),
+								});
+							}
+							responseData = results;
+						} else if (operation === 'getData') {
+							const itemName = this.getNodeParameter('itemName', i, '', { extractValue: true }) as string;
+							const startTime = getDateTimeParameter.call(this, 'persistenceStartTime', 'Start Time', i);
+							const endTime = getDateTimeParameter.call(this, 'persistenceEndTime', 'End Time', i);
+							const pageLength = this.getNodeParameter('persistencePageLength', i, 0) as number;
+							if (startTime) {
+								qs.starttime = startTime;
+							}
+							if (endTime) {
+								qs.endtime = endTime;
+							}
+							if (pageLength > 0) {
+								qs.page = this.getNodeParameter('persistencePage', i, 0) as number;
+								qs.pagelength = pageLength;
+							}
+							if (this.getNodeParameter('persistenceBoundary', i, false) as boolean) {
+								qs.boundary = true;
+							}
+							const history = (await openhabApiRequest.call(this, 'GET',
+								`/persistence/items/${encodeURIComponent(itemName)}`,
+								{},
+								qs,
+							)) as IDataObject;
+							responseData = getDataPoints(history).map((point) => formatDataPoint(itemName, point));
+						} else if (operation === 'storeData') {
+							const itemName = this.getNodeParameter('itemName', i, '', { extractValue: true }) as string;
+							const state = this.getNodeParameter('persistenceState', i) as string;
+							const time =
+								getDateTimeParameter.call(this, 'persistenceTime', 'Time', i) ?? new Date().toISOString();
+							qs.time = time;
+							qs.state = state;
+							const res = (await openhabApiRequest.call(this, 'PUT',
+								`/persistence/items/${encodeURIComponent(itemName)}`,
+								{},
+								qs,
+								{ fullResponse: true },
+							)) as IDataObject;
+							responseData = {
+								item: itemName,
+								serviceId: serviceId || undefined,
+								time,
+								state,
+								statusCode: res.statusCode,
+							};
+						}
+					}
+				} else if (resource === 'semantic') {
+					const model = buildSemanticModel(
+						(await openhabApiRequest.call(this, 'GET',
+							'/items',
+							{},
+							{ metadata: 'semantics' },
+						)) as IDataObject[],
+					);
+					if (operation === 'tree') {
+						responseData = buildSemanticTree(model);
+					} else if (operation === 'query') {
+						const kind = this.getNodeParameter('semanticKind', i, '') as SemanticKind | '';
+						responseData = querySemanticModel(model, {
+							kind: kind || undefined,
+							semanticType: (this.getNodeParameter('semanticClass', i, '') as string).trim(),
+							property: (this.getNodeParameter('semanticProperty', i, '') as string).trim(),
+							location: (this.getNodeParameter('semanticLocation', i, '') as string).trim(),
+						}).map((node) => describeSemanticNode(model, node));
+					}
+				} else if (resource === 'voice') {
+					if (operation === 'listSinks') {
+						responseData = await openhabApiRequest.call(this, 'GET',
+							'/audio/sinks',
+							{},
+							{},
+						);
+					} else if (operation === 'listVoices') {
+						responseData = await openhabApiRequest.call(this, 'GET',
+							'/voice/voices',
+							{},
+							{},
+						);
+					} else if (operation === 'interpret') {
+						const text = this.getNodeParameter('voiceText', i) as string;
+						const interpreters = parseCommaSeparatedList(
+							this.getNodeParameter('voiceInterpreters', i, '') as string,
+						);
+						const response = await openhabApiRequest.call(this, 'POST',
+							interpreters.length > 0
+								? `/voice/interpreters/${interpreters.map(encodeURIComponent).join(',')}`
+								: '/voice/interpreters',
+							text,
+							{},
+							{ plainText: true },
+						);
+						responseData = {
+							text,
+							response: (response as string | undefined) ?? '',
+						};
+					} else {
+						const sinkId = this.getNodeParameter('voiceSinkId', i, '') as string;
+						const volume = this.getNodeParameter('voiceVolume', i, 0) as number;
+						if (operation === 'say') {
+							const text = this.getNodeParameter('voiceText', i) as string;
+							const voiceId = this.getNodeParameter('voiceId', i, '') as string;
+							const qs: IDataObject = {};
+							if (voiceId) {
+								qs.voiceid = voiceId;
+							}
+							if (sinkId) {
+								qs.sinkid = sinkId;
+							}
+							if (volume > 0) {
+								qs.volume = volume;
+							}
+							const res = (await openhabApiRequest.call(this, 'POST',
+								'/voice/say',
+								text,
+								qs,
+								{ plainText: true, fullResponse: true },
+							)) as IDataObject;
+							responseData = {
+								text,
+								voice: voiceId || undefined,
+								sink: sinkId || undefined,
+								statusCode: res.statusCode,
+							};
+						} else if (operation === 'play') {
+							const soundSource = this.getNodeParameter('voiceSoundSource', i, 'file') as string;
+							const source =
+								soundSource === 'url'
+									? { url: (this.getNodeParameter('voiceStreamUrl', i) as string).trim() }
+									: { sound: this.getNodeParameter('voiceSound', i) as string };
+							await playSound.call(this, source, sinkId, volume);
+							responseData = {
+								...source,
+								sink: sinkId || undefined,
+								played: true,
+							};
+						}
+					}
+				} else if (resource === 'config') {
+					const types = this.getNodeParameter('configEntityTypes', i, ENTITY_TYPES) as EntityType[];
+					if (types.length === 0) {
+						throw new NodeOperationError(this.getNode(), 'Select at least one entity type.', { itemIndex: i });
+					}
+					if (operation === 'export') {
+						const document: ConfigDocument = {
+							version: 1,
+							exportedAt: new Date().toISOString(),
+							...(await fetchManagedConfig.call(this, types)),
+						};
+						if (this.getNodeParameter('configOutputBinary', i, false) as boolean) {
+							const binaryProperty = this.getNodeParameter('configBinaryProperty', i, 'data') as string;
+							binaryData = {
+								[binaryProperty]: await this.helpers.prepareBinaryData(
+									Buffer.from(JSON.stringify(document, null, 2), 'utf8'),
+									`openhab-config-${document.exportedAt.slice(0, 10)}.json`,
+									'application/json',
+								),
+							};
+							responseData = {
+								exportedAt: document.exportedAt,
+								...Object.fromEntries(types.map((type) => [type, document[type]?.length ?? 0])),
+							};
+						} else {
+							responseData = document;
+						}
+					} else if (operation === 'import') {
+						let value: unknown;
+						if (this.getNodeParameter('configImportSource', i, 'json') === 'binary') {
+							const binaryProperty = this.getNodeParameter('configBinaryProperty', i, 'data') as string;
+							const buffer = await this.helpers.getBinaryDataBuffer(i, binaryProperty);
+							value = parseJsonParameter.call(this, buffer.toString('utf8'), 'Document');
+						} else {
+							value = parseJsonParameter.call(this, this.getNodeParameter('configDocument', i), 'Document');
+						}
+						let document: ConfigDocument;
+						try {
+							document = parseConfigDocument(value);
+						} catch (error) {
+							throw new NodeOperationError(this.getNode(), `Invalid Document: ${(error as Error).message}`, {
+								itemIndex: i,
+							});
+						}
+						const selected: ConfigDocument = {
+							...document,
+							items: undefined,
+							things: undefined,
+							links: undefined,
+							rules: undefined,
+						};
+						for (const type of types) {
+							selected[type] = document[type];
+						}
+						const current = await fetchManagedConfig.call(
+							this,
+							types.filter((type) => selected[type] !== undefined),
+						);
+						responseData = await importConfigDocument.call(
+							this,
+							selected,
+							current,
+							this.getNodeParameter('configDeleteMissing', i, false) as boolean,
+							this.getNodeParameter('configDeleteMissingMetadata', i, false) as boolean,
+							this.getNodeParameter('configDryRun', i, true) as boolean,
+						);
+					} else if (operation === 'exportDsl') {
+						const fileType = this.getNodeParameter('dslFileType', i, 'items') as string;
+						let text: string;
+						let count: number;
+						if (fileType === 'things') {
+							const things = (await openhabApiRequest.call(this, 'GET', '/things')) as IDataObject[];
+							text = renderThingsDsl(things);
+							count = things.length;
+						} else {
+							const allItems = (await openhabApiRequest.call(this, 'GET',
+								'/items',
+								{},
+								{ metadata: '.*' },
+							)) as IDataObject[];
+							const links = (await openhabApiRequest.call(this, 'GET', '/links')) as IDataObject[];
+							text = renderItemsDsl(allItems, links);
+							count = allItems.length;
+						}
+						const fileName = `openhab.${fileType}`;
+						const binaryProperty = this.getNodeParameter('configBinaryProperty', i, 'data') as string;
+						binaryData = {
+							[binaryProperty]: await this.helpers.prepareBinaryData(
+								Buffer.from(text, 'utf8'),
+								fileName,
+								'text/plain',
+							),
+						};
+						responseData = { fileName, [fileType]: count };
+					} else if (operation === 'importDsl') {
+						const fileType = this.getNodeParameter('dslFileType', i, 'items') as EntityType;
+						let text: string;
+						if (this.getNodeParameter('dslSource', i, 'text') === 'binary') {
+							const binaryProperty = this.getNodeParameter('configBinaryProperty', i, 'data') as string;
+							text = (await this.helpers.getBinaryDataBuffer(i, binaryProperty)).toString('utf8');
+						} else {
+							text = this.getNodeParameter('dslText', i) as string;
+						}
+						const document: ConfigDocument = { version: 1, exportedAt: '' };
+						let current: Partial<Record<EntityType, IDataObject[]>>;
+						try {
+							if (fileType === 'things') {
+								current = await fetchManagedConfig.call(this, ['things']);
+								const currentThings = new Map((current.things ?? []).map((thing) => [thing.UID, thing]));
+								document.things = parseThingsDsl(text).map((thing) => {
+									const existing = currentThings.get(thing.UID);
+									return existing ? mergeThingDefinition(existing, thing) : thing;
+								});
+							} else {
+								current = await fetchManagedConfig.call(this, ['items', 'links']);
+								const parsedItems = parseItemsDsl(text);
+								document.items = parsedItems.map((item) => ({ ...toItemPayload(item), metadata: item.metadata }));
+								document.links = parsedItems.flatMap((item) =>
+									item.channels.map((channel) => ({ itemName: item.name, ...channel })),
+								);
+							}
+						} catch (error) {
+							if (error instanceof NodeApiError || error instanceof NodeOperationError) {
+								throw error;
+							}
+							throw new NodeOperationError(this.getNode(), `Invalid ${fileType} file: ${(error as Error).message}`, {
+								itemIndex: i,
+							});
+						}
+						responseData = await importConfigDocument.call(
+							this,
+							document,
+							current,
+							false,
+							this.getNodeParameter('configDeleteMissingMetadata', i, false) as boolean,
+							this.getNodeParameter('configDryRun', i, true) as boolean,
+						);
+					}
 				} else if (resource === 'system') {
 					responseData = await openhabApiRequest.call(this, 'GET',
 						'/systeminfo',
@@ -566,6 +4664,7 @@ export class openHAB implements INodeType {
 				} else {
 					returnData.push({
 						json: responseData as IDataObject,
+						...(binaryData ? { binary: binaryData } : {}),
 						pairedItem: { item: i },
 					});
 				}
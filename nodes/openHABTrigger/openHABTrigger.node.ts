@@ -1,16 +1,27 @@
 import {
-	NodeOperationError,
 	type IDataObject,
-	type ICredentialDataDecryptedObject,
 	type INodeExecutionData,
 	type INodeProperties,
 	type INodeType,
 	type INodeTypeDescription,
 	type ITriggerFunctions,
 	type ITriggerResponse,
+	NodeOperationError,
 } from 'n8n-workflow'
 import { WebSocketClient } from '../../util/ws';
-import { setupOpenHABApi } from '../../util/openHABApi'
+import { EventSourceClient } from '../../util/sse'
+import {
+	buildEventStreamConfig,
+	buildEventWebSocketConfig,
+	type EventWebSocketConfig,
+	getEventSource,
+	parseCommaSeparatedList,
+} from '../../util/openHABApi'
+import { createReconnector } from '../../util/reconnect'
+import { createWatchdog, type Watchdog } from '../../util/watchdog'
+import { createEventFilter, getEventStreamTopics } from '../../util/eventFilters'
+import { type CompareOperator, createEventCondition, type EventCondition } from '../../util/eventConditions'
+import { createEventLimiter, type EventLimiterOptions, getItemKey } from '../../util/eventLimiter'
 
 /**
  * A message that is sent over the openHAB WebSocket.
@@ -26,79 +37,31 @@ interface EventWebSocketMessage extends IDataObject {
 type Primitive = string | number | boolean;
 type PrimitiveArray = Primitive[];
 type EventPayload = Primitive | PrimitiveArray | IDataObject | IDataObject[] | null;
+type Transport = 'websocket' | 'sse';
 
-function parseFilterList(value: string): string[] {
-	return value
-		.split(',')
-		.map((entry) => entry.trim())
-		.filter((entry) => entry.length > 0);
-}
-
-const HEARTBEAT_INTERVAL_MS = 5000;
-
-async function buildWebSocketConfig(
-	this: ITriggerFunctions,
-): Promise<{
-	url: string;
-	protocols: string[];
-	allowInsecure: boolean;
-	headers: Record<string, string>;
-	clientId: string;
-}> {
-	const credentials = (await this.getCredentials(
-		'openHABApi',
-	)) as ICredentialDataDecryptedObject;
-
-	const { useCloud, baseUrl, skipSslCertificateValidation, source } = await setupOpenHABApi.call(this);
-
-	let accessToken = '';
-	const extraHeaders: Record<string, string> = {};
-
-	if (useCloud) {
-		// additional validation as Event WebSocket API requires token
-		const cloudToken = ((credentials.cloudToken as string | undefined) ?? '').trim();
-		if (!cloudToken) {
-			throw new NodeOperationError(this.getNode(), 'API token is required.');
-		}
-
-		const username = credentials.username as string;
-		const password = credentials.password as string;
-
-		extraHeaders['Authorization'] =
-			`Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
-		extraHeaders['X-OPENHAB-TOKEN'] = cloudToken;
-		accessToken = cloudToken;
-	} else {
-		const token = (credentials.token as string).trim();
-		accessToken = token;
-		extraHeaders['Authorization'] = `Bearer ${token}`;
-		extraHeaders['X-OPENHAB-TOKEN'] = token;
-	}
-
-	let parsedUrl: URL;
-	try {
-		parsedUrl = new URL(baseUrl);
-	} catch (error) {
-		throw new NodeOperationError(
-			this.getNode(),
-			`Invalid Base URL "${baseUrl}": ${(error as Error).message}`,
-		);
-	}
-
-	parsedUrl.protocol = parsedUrl.protocol === 'https:' ? 'wss:' : 'ws:';
-	parsedUrl.pathname = '/ws/events';
-	parsedUrl.search = '';
+/** Topic of the connection state events emitted by the node itself */
+const CONNECTION_STATE_TOPIC = 'n8n/openhab/connection';
 
-	const encodedAccessToken = accessToken ? Buffer.from(accessToken).toString('base64').replace(/=*$/, '') : null
-	const subProtocols = encodedAccessToken ? [`org.openhab.ws.accessToken.base64.${encodedAccessToken}`, 'org.openhab.ws.protocol.default'] : [];
+/** Interval of the keep-alive events openHAB sends on the event stream */
+const SSE_KEEP_ALIVE_INTERVAL_MS = 10000;
 
-	return {
-		url: parsedUrl.toString(),
-		protocols: subProtocols,
-		allowInsecure: skipSslCertificateValidation,
-		headers: extraHeaders,
-		clientId: source,
-	};
+/**
+ * Returns the parameter shown from node version 2 on, preceded by a copy with the default of version 1, so that
+ * workflows saved with version 1 keep their behavior.
+ */
+function withVersion1Default(property: INodeProperties, version1Default: INodeProperties['default']): INodeProperties[] {
+	const show = property.displayOptions?.show ?? {};
+	return [
+		{
+			...property,
+			default: version1Default,
+			displayOptions: { ...property.displayOptions, show: { ...show, '@version': [1] } },
+		},
+		{
+			...property,
+			displayOptions: { ...property.displayOptions, show: { ...show, '@version': [{ _cnd: { gte: 2 } }] } },
+		},
+	];
 }
 
 export class openHABTrigger implements INodeType {
@@ -107,7 +70,8 @@ export class openHABTrigger implements INodeType {
 		name: 'openHabTrigger',
 		icon: 'file:openhab.svg',
 		group: ['trigger'],
-		version: 1,
+		version: [1, 2],
+		defaultVersion: 2,
 		description: 'Listen to the openHAB Event Bus.',
 		documentationUrl: 'https://www.openhab.org/docs/developer/utils/events.html',
 		defaults: {
@@ -122,6 +86,34 @@ export class openHABTrigger implements INodeType {
 			},
 		],
 		properties: [
+			...withVersion1Default(
+				{
+					displayName: 'Transport',
+					name: 'transport',
+					type: 'options',
+					options: [
+						{
+							name: 'Auto',
+							value: 'auto',
+							description: 'Use the WebSocket and fall back to Server-Sent Events if it is not available',
+						},
+						{
+							name: 'WebSocket',
+							value: 'websocket',
+							description: 'Use /ws/events (openHAB 4.1+, requires an API token)',
+						},
+						{
+							name: 'Server-Sent Events',
+							value: 'sse',
+							description: 'Use /rest/events, e.g. for openHAB 3 or proxies that do not support WebSocket',
+						},
+					],
+					default: 'auto',
+					description:
+						'How to receive events. With Server-Sent Events, filters that openHAB cannot apply are applied by the node.',
+				},
+				'websocket',
+			),
 			{
 				displayName: 'Topic Filters',
 				name: 'topicFilters',
@@ -149,32 +141,453 @@ export class openHABTrigger implements INodeType {
 				description:
 					'Comma-separated event sources to exclude. The node’s own source is always excluded to prevent loops.',
 			},
+			{
+				displayName: 'Condition',
+				name: 'condition',
+				type: 'options',
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+					},
+					{
+						name: 'Compare Value',
+						value: 'compare',
+						description: 'Emit events whose value matches a comparison, e.g. less than 18 °C',
+					},
+					{
+						name: 'State Transition',
+						value: 'transition',
+						description: 'Emit events where the value changed from one state to another',
+					},
+					{
+						name: 'Threshold Crossing',
+						value: 'crossing',
+						description: 'Emit events where the value rose above or fell below a threshold',
+					},
+				],
+				default: 'none',
+				description: 'Condition on the payload of events that pass the filters',
+			},
+			{
+				displayName: 'Value Path',
+				name: 'conditionPath',
+				type: 'string',
+				displayOptions: {
+					show: {
+						condition: ['compare', 'transition', 'crossing'],
+					},
+				},
+				default: '$.value',
+				placeholder: '$.statusInfo.status',
+				description:
+					'JSONPath of the value in the parsed payload, e.g. $.value for item events or $.status for thing status events',
+			},
+			{
+				displayName: 'Operator',
+				name: 'conditionOperator',
+				type: 'options',
+				options: [
+					{ name: 'Contains', value: 'contains' },
+					{ name: 'Equal', value: 'equal' },
+					{ name: 'Exists', value: 'exists' },
+					{ name: 'Greater Than', value: 'greater' },
+					{ name: 'Greater Than or Equal', value: 'greaterOrEqual' },
+					{ name: 'Less Than', value: 'less' },
+					{ name: 'Less Than or Equal', value: 'lessOrEqual' },
+					{ name: 'Matches Regular Expression', value: 'regex' },
+					{ name: 'Not Equal', value: 'notEqual' },
+				],
+				displayOptions: {
+					show: {
+						condition: ['compare'],
+					},
+				},
+				default: 'equal',
+			},
+			{
+				displayName: 'Value',
+				name: 'conditionValue',
+				type: 'string',
+				displayOptions: {
+					show: {
+						condition: ['compare'],
+					},
+					hide: {
+						conditionOperator: ['exists'],
+					},
+				},
+				default: '',
+				placeholder: '18 °C',
+				description:
+					'Value to compare with. Numbers with a unit are converted, so 70 °F is greater than 20 °C.',
+			},
+			{
+				displayName: 'From State',
+				name: 'transitionFrom',
+				type: 'string',
+				displayOptions: {
+					show: {
+						condition: ['transition'],
+					},
+				},
+				default: '',
+				placeholder: 'OFF,NULL',
+				description: 'Comma-separated previous states. Leave empty for any state.',
+			},
+			{
+				displayName: 'To State',
+				name: 'transitionTo',
+				type: 'string',
+				displayOptions: {
+					show: {
+						condition: ['transition'],
+					},
+				},
+				default: '',
+				placeholder: 'ON',
+				description: 'Comma-separated new states. Leave empty for any state.',
+			},
+			{
+				displayName: 'Direction',
+				name: 'crossingDirection',
+				type: 'options',
+				options: [
+					{ name: 'Rising', value: 'rising' },
+					{ name: 'Falling', value: 'falling' },
+					{ name: 'Both', value: 'both' },
+				],
+				displayOptions: {
+					show: {
+						condition: ['crossing'],
+					},
+				},
+				default: 'rising',
+			},
+			{
+				displayName: 'Threshold',
+				name: 'threshold',
+				type: 'string',
+				displayOptions: {
+					show: {
+						condition: ['crossing'],
+					},
+				},
+				default: '',
+				placeholder: '18 °C',
+			},
+			{
+				displayName: 'Hysteresis',
+				name: 'hysteresis',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				displayOptions: {
+					show: {
+						condition: ['crossing'],
+					},
+				},
+				default: 0,
+				description:
+					'How far (in the unit of the threshold) the value has to move back across the threshold before the next crossing is emitted, to avoid repeated events from a value fluctuating around it',
+			},
+			{
+				displayName: 'Rate Limit',
+				name: 'rateLimit',
+				type: 'options',
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+					},
+					{
+						name: 'Debounce',
+						value: 'debounce',
+						description: 'Emit the last event once no further event arrived for the interval',
+					},
+					{
+						name: 'Throttle',
+						value: 'throttle',
+						description: 'Emit at most one event per interval',
+					},
+				],
+				default: 'none',
+				description: 'How to limit events of noisy items, so that not every event starts an execution',
+			},
+			{
+				displayName: 'Interval (Seconds)',
+				name: 'rateLimitInterval',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				displayOptions: {
+					show: {
+						rateLimit: ['debounce', 'throttle'],
+					},
+				},
+				default: 5,
+			},
+			{
+				displayName: 'Throttle Edge',
+				name: 'throttleEdge',
+				type: 'options',
+				options: [
+					{
+						name: 'Leading',
+						value: 'leading',
+						description: 'Emit the first event of an interval immediately',
+					},
+					{
+						name: 'Trailing',
+						value: 'trailing',
+						description: 'Emit the last event of an interval when it ends',
+					},
+				],
+				displayOptions: {
+					show: {
+						rateLimit: ['throttle'],
+					},
+				},
+				default: 'leading',
+			},
+			{
+				displayName: 'Only When Value Changed',
+				name: 'onlyWhenChanged',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to drop events whose value (e.g. the state of an ItemStateUpdatedEvent) equals the last emitted one',
+			},
+			{
+				displayName: 'Limit Per',
+				name: 'limitPer',
+				type: 'options',
+				options: [
+					{
+						name: 'Topic',
+						value: 'topic',
+					},
+					{
+						name: 'Item',
+						value: 'item',
+						description: 'All events of an item, e.g. its commands and state updates, count together',
+					},
+				],
+				default: 'topic',
+				description:
+					'Whether rate limiting and value deduplication apply per topic or per item. Emitted events have the number of events suppressed before them in suppressedEvents.',
+			},
+			{
+				displayName: 'Heartbeat Interval (Seconds)',
+				name: 'heartbeatInterval',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				default: 5,
+				description:
+					'How often to send a heartbeat PING to openHAB to keep the connection alive. The event stream (SSE) has no PING and is checked against the keep-alive events openHAB sends every 10 seconds instead, so it uses at least 10 seconds.',
+			},
+			{
+				displayName: 'Missed Heartbeats Before Reconnect',
+				name: 'maxMissedHeartbeats',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				default: 3,
+				description:
+					'Number of heartbeat intervals without any message (PONG, keep-alive or event) after which the connection is considered dead and closed, e.g. a half-open connection through NAT or myopenHAB. 0 disables the check.',
+			},
+			...withVersion1Default(
+				{
+					displayName: 'Reconnect Automatically',
+					name: 'autoReconnect',
+					type: 'boolean',
+					default: true,
+					description:
+						'Whether to reconnect with exponential backoff when the connection is lost (e.g., openHAB restart, network outage) and subscribe to the filters again',
+				},
+				false,
+			),
+			{
+				displayName: 'Initial Reconnect Delay (Seconds)',
+				name: 'reconnectInitialDelay',
+				type: 'number',
+				typeOptions: { minValue: 0.1 },
+				displayOptions: {
+					show: {
+						autoReconnect: [true],
+					},
+				},
+				default: 1,
+				description: 'Delay before the first reconnection attempt. It doubles with every failed attempt, with random jitter.',
+			},
+			{
+				displayName: 'Max Reconnect Delay (Seconds)',
+				name: 'reconnectMaxDelay',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: {
+						autoReconnect: [true],
+					},
+				},
+				default: 60,
+			},
+			{
+				displayName: 'Max Reconnect Attempts',
+				name: 'maxReconnectAttempts',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				displayOptions: {
+					show: {
+						autoReconnect: [true],
+					},
+				},
+				default: 0,
+				description:
+					'Number of failed attempts in a row after which the trigger gives up and reports an error. 0 retries forever.',
+			},
+			{
+				displayName: 'Emit Connection State Events',
+				name: 'emitConnectionEvents',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to emit an item with type ConnectionStateEvent when the connection is lost, restored or given up, e.g. to alert on outages',
+			},
 		] as INodeProperties[],
 	};
 
 	async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
-		const topicFilters = parseFilterList(this.getNodeParameter('topicFilters') as string);
-		const typeFilters = parseFilterList(this.getNodeParameter('typeFilters') as string);
-		const sourceFilters = parseFilterList(this.getNodeParameter('sourceFilters') as string);
+		const transport = this.getNodeParameter('transport', 'websocket') as Transport | 'auto';
+		const topicFilters = parseCommaSeparatedList(this.getNodeParameter('topicFilters') as string);
+		const typeFilters = parseCommaSeparatedList(this.getNodeParameter('typeFilters') as string);
+		const sourceFilters = parseCommaSeparatedList(this.getNodeParameter('sourceFilters') as string);
+
+		const autoReconnect = this.getNodeParameter('autoReconnect', false) as boolean;
+		const backoff = {
+			initialDelayMs: (this.getNodeParameter('reconnectInitialDelay', 1) as number) * 1000,
+			maxDelayMs: (this.getNodeParameter('reconnectMaxDelay', 60) as number) * 1000,
+		};
+		const maxReconnectAttempts = this.getNodeParameter('maxReconnectAttempts', 0) as number;
+		const emitConnectionEvents = this.getNodeParameter('emitConnectionEvents', false) as boolean;
+		const conditionType = this.getNodeParameter('condition', 'none') as string;
+		let condition: EventCondition | null = null;
+		try {
+			const path = this.getNodeParameter('conditionPath', '$.value') as string;
+			if (conditionType === 'compare') {
+				condition = createEventCondition({
+					type: 'compare',
+					path,
+					operator: this.getNodeParameter('conditionOperator') as CompareOperator,
+					value: this.getNodeParameter('conditionValue', '') as string,
+				});
+			} else if (conditionType === 'transition') {
+				condition = createEventCondition({
+					type: 'transition',
+					path,
+					from: parseCommaSeparatedList(this.getNodeParameter('transitionFrom', '') as string),
+					to: parseCommaSeparatedList(this.getNodeParameter('transitionTo', '') as string),
+				});
+			} else if (conditionType === 'crossing') {
+				condition = createEventCondition({
+					type: 'crossing',
+					path,
+					direction: this.getNodeParameter('crossingDirection') as 'rising' | 'falling' | 'both',
+					threshold: this.getNodeParameter('threshold') as string,
+					hysteresis: this.getNodeParameter('hysteresis', 0) as number,
+				});
+			}
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), `Invalid condition: ${(error as Error).message}`);
+		}
 
-		const { url, protocols, allowInsecure, headers, clientId } =
-			await buildWebSocketConfig.call(this);
+		const limiterOptions: EventLimiterOptions = {
+			mode: this.getNodeParameter('rateLimit', 'none') as EventLimiterOptions['mode'],
+			intervalMs: (this.getNodeParameter('rateLimitInterval', 5) as number) * 1000,
+			edge: this.getNodeParameter('throttleEdge', 'leading') as EventLimiterOptions['edge'],
+			onlyWhenChanged: this.getNodeParameter('onlyWhenChanged', false) as boolean,
+		};
+		const limitPer = this.getNodeParameter('limitPer', 'topic') as 'topic' | 'item';
+		const heartbeatIntervalMs = (this.getNodeParameter('heartbeatInterval', 5) as number) * 1000;
+		const maxMissedHeartbeats = this.getNodeParameter('maxMissedHeartbeats', 3) as number;
+
+		let webSocketConfig: EventWebSocketConfig | null = null;
+		if (transport !== 'sse') {
+			try {
+				webSocketConfig = await buildEventWebSocketConfig.call(this);
+			} catch (error) {
+				// In auto mode, e.g. myopenHAB without API token, which only the event stream accepts
+				if (transport === 'websocket') {
+					throw error;
+				}
+			}
+		}
+		const streamConfig =
+			transport !== 'websocket'
+				? await buildEventStreamConfig.call(this, getEventStreamTopics(topicFilters))
+				: null;
+		const clientId = getEventSource.call(this);
+
+		// Exclude our own source to prevent loops
+		sourceFilters.push(clientId);
+
+		// The event stream cannot filter by type and source, so the filters are applied here as well
+		const matchesFilters = createEventFilter({ topicFilters, typeFilters, sourceFilters });
+
+		const limiter =
+			limiterOptions.mode !== 'none' || limiterOptions.onlyWhenChanged
+				? createEventLimiter<INodeExecutionData>(limiterOptions, (item, suppressed) => {
+						item.json.suppressedEvents = suppressed;
+						this.emit([[item]]);
+				  })
+				: null;
 
 		let isClosing = false;
 		let isConnected = false;
-		let heartbeatTimer: NodeJS.Timeout | null = null;
+		let connection: WebSocketClient | EventSourceClient | null = null;
+		let watchdog: Watchdog | null = null;
 
-		const ws = new WebSocketClient(url, {
-			protocols,
-			allowInsecure,
-			headers,
-		});
+		const describeConnection = () =>
+			reconnector.transport === 'websocket' ? 'openHAB event WebSocket' : 'openHAB event stream';
+
+		const emitConnectionState = (state: string, details: IDataObject) => {
+			if (!emitConnectionEvents) {
+				return;
+			}
+			const disconnectedSince = reconnector.disconnectedSince;
+			const payload: IDataObject = {
+				state,
+				...details,
+				...(disconnectedSince !== null
+					? {
+							disconnectedSince: new Date(disconnectedSince).toISOString(),
+							downtimeMs: Date.now() - disconnectedSince,
+					  }
+					: {}),
+			};
+			this.emit([
+				[
+					{
+						json: {
+							type: 'ConnectionStateEvent',
+							topic: CONNECTION_STATE_TOPIC,
+							payload,
+							rawPayload: JSON.stringify(payload),
+							source: clientId,
+							receivedAt: new Date().toISOString(),
+						},
+					},
+				],
+			]);
+		};
+
+		const stopWatchdog = () => {
+			watchdog?.stop();
+			watchdog = null;
+		};
 
 		const sendWebSocketEvent = (topic: string, payload: string) => {
-			if (!isConnected) {
+			if (!isConnected || !(connection instanceof WebSocketClient)) {
 				return;
 			}
-			ws.send(
+			connection.send(
 				JSON.stringify({
 					type: 'WebSocketEvent',
 					topic,
@@ -184,44 +597,7 @@ export class openHABTrigger implements INodeType {
 			);
 		};
 
-		ws.on('open', () => {
-			isConnected = true;
-
-			// Exclude our own source to prevent loops
-			sourceFilters.push(clientId);
-			sendWebSocketEvent('openhab/websocket/filter/source', JSON.stringify(sourceFilters));
-
-			if (topicFilters.length > 0) {
-				sendWebSocketEvent('openhab/websocket/filter/topic', JSON.stringify(topicFilters));
-			}
-			if (typeFilters.length > 0) {
-				sendWebSocketEvent('openhab/websocket/filter/type', JSON.stringify(typeFilters));
-			}
-
-			heartbeatTimer = setInterval(() => {
-				if (!isConnected) {
-					return;
-				}
-				sendWebSocketEvent('openhab/websocket/heartbeat', 'PING');
-			}, HEARTBEAT_INTERVAL_MS);
-		});
-
-		ws.on('message', (data: string | Buffer) => {
-			const message = Buffer.isBuffer(data) ? data.toString('utf8') : data;
-
-			let event: EventWebSocketMessage;
-			try {
-				event = JSON.parse(message) as EventWebSocketMessage;
-			} catch {
-				return;
-			}
-
-			if (event.type === 'WebSocketEvent') {
-				// PONG response from the server
-				// confirmation of filter setting
-				return;
-			}
-
+		const emitEvent = (event: EventWebSocketMessage) => {
 			const rawPayload = event.payload;
 			let parsedPayload = rawPayload as EventPayload;
 			if (typeof rawPayload === 'string') {
@@ -232,46 +608,198 @@ export class openHABTrigger implements INodeType {
 				}
 			}
 
+			// Transitions and crossings are tracked per item and event type, so commands do not count as states
+			const conditionResult = condition?.evaluate(getItemKey(event.topic), parsedPayload, event.type);
+			if (conditionResult === null) {
+				return;
+			}
+
 			const item: INodeExecutionData = {
 				json: {
 					...event,
 					payload: parsedPayload,
 					rawPayload: rawPayload,
 					receivedAt: new Date().toISOString(),
+					...conditionResult,
 				},
 			};
-			this.emit([[item]]);
-		});
+			if (!limiter) {
+				this.emit([[item]]);
+				return;
+			}
 
-		ws.on('close', () => {
-			isConnected = false;
-			if (heartbeatTimer) {
-				clearInterval(heartbeatTimer);
-				heartbeatTimer = null;
+			const value =
+				parsedPayload && typeof parsedPayload === 'object' && 'value' in parsedPayload
+					? String(parsedPayload.value)
+					: rawPayload;
+			limiter.push(limitPer === 'item' ? getItemKey(event.topic) : event.topic, item, value);
+		};
+
+		const handleDisconnect = (client: WebSocketClient | EventSourceClient, reason: string) => {
+			// Errors are followed by a close event, and events of replaced connections are ignored
+			if (isClosing || client !== connection) {
+				return;
 			}
-			if (!isClosing) {
-				this.emitError(
-					new Error('openHAB event WebSocket closed unexpectedly.'),
+			connection = null;
+			isConnected = false;
+			stopWatchdog();
+			client.close(false);
+			reconnector.handleDisconnect(reason);
+		};
+
+		const subscribeWebSocket = (client: WebSocketClient) => {
+			client.on('open', () => {
+				// Filters are per connection, so they are sent again after every reconnect
+				sendWebSocketEvent('openhab/websocket/filter/source', JSON.stringify(sourceFilters));
+
+				if (topicFilters.length > 0) {
+					sendWebSocketEvent('openhab/websocket/filter/topic', JSON.stringify(topicFilters));
+				}
+				if (typeFilters.length > 0) {
+					sendWebSocketEvent('openhab/websocket/filter/type', JSON.stringify(typeFilters));
+				}
+
+				// Every PING is answered with a PONG, so silence means the connection is dead even if TCP has not noticed
+				watchdog = createWatchdog(
+					heartbeatIntervalMs,
+					maxMissedHeartbeats,
+					(silentMs) =>
+						handleDisconnect(
+							client,
+							`openHAB event WebSocket did not respond for ${Math.round(silentMs / 1000)} seconds.`,
+						),
+					() => sendWebSocketEvent('openhab/websocket/heartbeat', 'PING'),
 				);
-			}
-		});
+			});
+
+			client.on('message', (data: string | Buffer) => {
+				watchdog?.touch();
+				const message = Buffer.isBuffer(data) ? data.toString('utf8') : data;
+
+				let event: EventWebSocketMessage;
+				try {
+					event = JSON.parse(message) as EventWebSocketMessage;
+				} catch {
+					return;
+				}
+
+				if (event.type === 'WebSocketEvent') {
+					// PONG response from the server
+					// confirmation of filter setting
+					return;
+				}
+				emitEvent(event);
+			});
+		};
+
+		const subscribeEventStream = (client: EventSourceClient) => {
+			client.on('open', () => {
+				// openHAB sends keep-alive events, so silence means the connection is dead
+				watchdog = createWatchdog(
+					Math.max(heartbeatIntervalMs, SSE_KEEP_ALIVE_INTERVAL_MS),
+					maxMissedHeartbeats,
+					(silentMs) =>
+						handleDisconnect(client, `openHAB event stream was silent for ${Math.round(silentMs / 1000)} seconds.`),
+				);
+			});
+
+			client.on('message', (data: string, eventName: string) => {
+				watchdog?.touch();
+				// Other event names are keep-alive messages
+				if (eventName !== 'message') {
+					return;
+				}
 
-		ws.on('error', (err: Error) => {
-			if (!isClosing) {
-				this.emitError(new Error((err.message || 'Unknown WebSocket error')));
+				let event: EventWebSocketMessage;
+				try {
+					event = JSON.parse(data) as EventWebSocketMessage;
+				} catch {
+					return;
+				}
+
+				if (!event.topic || !matchesFilters(event)) {
+					return;
+				}
+				emitEvent(event);
+			});
+		};
+
+		const connect = (activeTransport: Transport) => {
+			const client =
+				activeTransport === 'websocket'
+					? new WebSocketClient(webSocketConfig!.url, {
+							protocols: webSocketConfig!.protocols,
+							allowInsecure: webSocketConfig!.allowInsecure,
+							headers: webSocketConfig!.headers,
+					  })
+					: new EventSourceClient(streamConfig!.url, {
+							allowInsecure: streamConfig!.allowInsecure,
+							headers: streamConfig!.headers,
+					  });
+			connection = client;
+
+			client.on('open', () => {
+				isConnected = true;
+				reconnector.handleOpen();
+			});
+
+			if (client instanceof WebSocketClient) {
+				subscribeWebSocket(client);
+			} else {
+				subscribeEventStream(client);
 			}
-		});
 
-		ws.connect();
+			client.on('close', () => {
+				handleDisconnect(client, `${describeConnection()} closed unexpectedly.`);
+			});
+
+			client.on('error', (err: Error) => {
+				handleDisconnect(client, err.message || `Unknown ${describeConnection()} error`);
+			});
+
+			client.connect();
+		};
+
+		// In auto mode, the transport is chosen by the first successful connection
+		const transports: Transport[] = !webSocketConfig
+			? ['sse']
+			: transport === 'auto'
+				? ['websocket', 'sse']
+				: ['websocket'];
+		const reconnector = createReconnector<Transport>(
+			{
+				transports,
+				autoReconnect,
+				maxAttempts: maxReconnectAttempts,
+				backoff,
+			},
+			{
+				connect,
+				onRetry: (attempt, delayMs, reason) => {
+					emitConnectionState('disconnected', { attempt, reconnectInMs: delayMs, error: reason });
+				},
+				onReconnected: (attempts, activeTransport) => {
+					emitConnectionState('connected', { attempts, transport: activeTransport });
+				},
+				onGiveUp: (reason, attempts) => {
+					if (!autoReconnect) {
+						this.emitError(new Error(reason));
+						return;
+					}
+					emitConnectionState('failed', { attempts, error: reason });
+					this.emitError(new Error(`${describeConnection()} could not reconnect after ${attempts} attempts: ${reason}`));
+				},
+			},
+		);
+		reconnector.start();
 
 		return {
 			closeFunction: async () => {
 				isClosing = true;
-				if (heartbeatTimer) {
-					clearInterval(heartbeatTimer);
-					heartbeatTimer = null;
-				}
-				ws.close();
+				reconnector.close();
+				stopWatchdog();
+				limiter?.dispose();
+				connection?.close();
 			},
 		};
 	}
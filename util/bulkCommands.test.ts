@@ -0,0 +1,57 @@
+import { dispatchAll, toBulkCommands } from './bulkCommands';
+
+describe('toBulkCommands', () => {
+  it('should accept arrays and objects', () => {
+    expect(toBulkCommands([{ item: 'Light_1', command: 'OFF' }, { name: 'Heating_1', state: 21 }])).toEqual([
+      { item: 'Light_1', command: 'OFF' },
+      { item: 'Heating_1', command: '21' },
+    ]);
+    expect(toBulkCommands({ Light_1: 'ON', Switch_1: true })).toEqual([
+      { item: 'Light_1', command: 'ON' },
+      { item: 'Switch_1', command: 'true' },
+    ]);
+  });
+
+  it('should reject invalid entries', () => {
+    expect(() => toBulkCommands([{ command: 'ON' }])).toThrow('Entry 0 has no item name');
+    expect(() => toBulkCommands([{ item: 'Light_1' }])).toThrow('Entry 0 (Light_1) has no command');
+    expect(() => toBulkCommands('Light_1=ON')).toThrow('Expected an array');
+  });
+});
+
+describe('dispatchAll', () => {
+  it('should limit concurrency and keep the order of the results', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const results = await dispatchAll([30, 10, 20, 5], { concurrency: 2, delayMs: 0 }, async (ms) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return ms * 2;
+    });
+    expect(maxRunning).toBe(2);
+    expect(results.map((result) => result.success && result.value)).toEqual([60, 20, 40, 10]);
+  });
+
+  it('should report failures without aborting the batch', async () => {
+    const results = await dispatchAll(['a', 'b', 'c'], { concurrency: 1, delayMs: 0 }, async (entry) => {
+      if (entry === 'b') {
+        throw new Error('404 Not Found');
+      }
+      return entry;
+    });
+    expect(results[0]).toEqual({ success: true, value: 'a' });
+    expect(results[1]).toEqual({ success: false, error: new Error('404 Not Found') });
+    expect(results[2]).toEqual({ success: true, value: 'c' });
+  });
+
+  it('should space the starts of consecutive tasks', async () => {
+    const startedAt: number[] = [];
+    await dispatchAll([1, 2, 3], { concurrency: 3, delayMs: 50 }, async () => {
+      startedAt.push(Date.now());
+    });
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(45);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(45);
+  });
+});
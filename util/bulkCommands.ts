@@ -0,0 +1,93 @@
+/**
+ * An item and the command to send to it.
+ */
+export interface BulkCommand {
+  item: string;
+  command: string;
+}
+
+/**
+ * Options for dispatching a batch of requests.
+ */
+export interface DispatchOptions {
+  /** Maximum number of requests in flight at the same time */
+  concurrency: number;
+  /** Minimum time between the start of two consecutive requests */
+  delayMs: number;
+}
+
+/**
+ * Outcome of one request of a batch: the result, or the error that occurred.
+ */
+export type SettledResult<T> = { success: true; value: T } | { success: false; error: Error };
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parses item/command pairs given as an array of objects (`item` or `name`, `command` or `state`) or as an object
+ * mapping item names to commands.
+ * @throws Error describing the first invalid entry
+ */
+export function toBulkCommands(value: unknown): BulkCommand[] {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value as Record<string, unknown>).map(([item, command]) => {
+      if (command === null || typeof command === 'object') {
+        throw new Error(`Command for item "${item}" must be a string, number or boolean.`);
+      }
+      return { item, command: String(command) };
+    });
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('Expected an array of {"item": ..., "command": ...} objects or an object of item names to commands.');
+  }
+
+  return value.map((entry: unknown, index) => {
+    const { item, name, command, state } = (entry ?? {}) as Record<string, unknown>;
+    const itemName = item ?? name;
+    const itemCommand = command ?? state;
+    if (typeof itemName !== 'string' || !itemName.trim()) {
+      throw new Error(`Entry ${index} has no item name.`);
+    }
+    if (itemCommand === undefined || itemCommand === null || typeof itemCommand === 'object') {
+      throw new Error(`Entry ${index} (${itemName}) has no command.`);
+    }
+    return { item: itemName.trim(), command: String(itemCommand) };
+  });
+}
+
+/**
+ * Runs the task for every entry with limited concurrency and spacing between the starts of consecutive tasks.
+ * A failing task does not abort the others.
+ * @returns The outcome of every task, in the order of the entries
+ */
+export async function dispatchAll<E, T>(
+  entries: E[],
+  options: DispatchOptions,
+  task: (entry: E, index: number) => Promise<T>,
+): Promise<Array<SettledResult<T>>> {
+  const results: Array<SettledResult<T>> = new Array(entries.length);
+  const concurrency = Math.max(1, Math.floor(options.concurrency) || 1);
+  const delayMs = Math.max(0, options.delayMs || 0);
+  let next = 0;
+  let nextStartAt = 0;
+
+  const worker = async () => {
+    while (next < entries.length) {
+      const index = next++;
+      // Reserve a start slot before waiting, so concurrent workers keep the spacing
+      const startAt = Math.max(Date.now(), nextStartAt);
+      nextStartAt = startAt + delayMs;
+      if (startAt > Date.now()) {
+        await sleep(startAt - Date.now());
+      }
+      try {
+        results[index] = { success: true, value: await task(entries[index], index) };
+      } catch (error) {
+        results[index] = { success: false, error: error instanceof Error ? error : new Error(String(error)) };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, entries.length) }, worker));
+  return results;
+}
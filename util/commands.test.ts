@@ -0,0 +1,85 @@
+import { getExpectedState, normalizeCommand } from './commands';
+
+describe('normalizeCommand', () => {
+  it('should map boolean-like values for Switch items', () => {
+    expect(normalizeCommand({ type: 'Switch' }, 'true', 'command')).toBe('ON');
+    expect(normalizeCommand({ type: 'Switch' }, 'off', 'command')).toBe('OFF');
+    expect(() => normalizeCommand({ type: 'Switch' }, 'maybe', 'command')).toThrow('expected ON/OFF');
+  });
+
+  it('should convert colors to HSB', () => {
+    expect(normalizeCommand({ type: 'Color' }, '#ff0000', 'command')).toBe('0,100,100');
+    expect(normalizeCommand({ type: 'Color' }, 'rgb(0, 0, 255)', 'command')).toBe('240,100,100');
+    expect(normalizeCommand({ type: 'Color' }, '400,120,50', 'command')).toBe('40,100,50');
+    expect(normalizeCommand({ type: 'Color' }, 'on', 'command')).toBe('ON');
+    expect(normalizeCommand({ type: 'Color' }, '30%', 'command')).toBe('30');
+    expect(() => normalizeCommand({ type: 'Color' }, 'blue', 'command')).toThrow('expected ON/OFF');
+  });
+
+  it('should clamp Dimmer and Rollershutter percentages', () => {
+    expect(normalizeCommand({ type: 'Dimmer' }, '150', 'command')).toBe('100');
+    expect(normalizeCommand({ type: 'Dimmer' }, '-5 %', 'command')).toBe('0');
+    expect(normalizeCommand({ type: 'Rollershutter' }, 'up', 'command')).toBe('UP');
+    expect(normalizeCommand({ type: 'Rollershutter' }, '42.5', 'command')).toBe('42.5');
+  });
+
+  it('should convert quantities to the item unit', () => {
+    expect(normalizeCommand({ type: 'Number:Temperature', unitSymbol: '°C' }, '68 °F', 'command')).toBe('20 °C');
+    expect(normalizeCommand({ type: 'Number:Temperature', unitSymbol: '°C' }, '21.5', 'command')).toBe('21.5');
+    expect(normalizeCommand({ type: 'Number:Power' }, '1.5 kW', 'command')).toBe('1.5 kW');
+    expect(() => normalizeCommand({ type: 'Number:Temperature', unitSymbol: '°C' }, '5 W', 'command')).toThrow(
+      'cannot convert',
+    );
+    expect(() => normalizeCommand({ type: 'Number' }, '5 W', 'command')).toThrow('without unit');
+  });
+
+  it('should keep the offset of ISO DateTime values and convert others to ISO timestamps', () => {
+    expect(normalizeCommand({ type: 'DateTime' }, '2026-01-01T10:00:00+01:00', 'state')).toBe(
+      '2026-01-01T10:00:00+01:00',
+    );
+    expect(normalizeCommand({ type: 'DateTime' }, 'Thu, 01 Jan 2026 10:00:00 GMT+0100', 'state')).toBe(
+      '2026-01-01T09:00:00.000Z',
+    );
+    expect(normalizeCommand({ type: 'DateTime' }, '0', 'state')).toBe('1970-01-01T00:00:00.000Z');
+    expect(() => normalizeCommand({ type: 'DateTime' }, 'tomorrow', 'state')).toThrow('expected an ISO date');
+  });
+
+  it('should use the base type of groups', () => {
+    expect(normalizeCommand({ type: 'Group', groupType: 'Switch' }, '1', 'command')).toBe('ON');
+    expect(normalizeCommand({ type: 'Group' }, 'anything', 'command')).toBe('anything');
+  });
+
+  it('should handle special values depending on the mode', () => {
+    expect(normalizeCommand({ type: 'Number' }, 'UNDEF', 'state')).toBe('UNDEF');
+    expect(normalizeCommand({ type: 'Dimmer' }, 'refresh', 'command')).toBe('REFRESH');
+    expect(() => normalizeCommand({ type: 'Contact' }, 'OPEN', 'command')).toThrow('do not accept commands');
+    expect(normalizeCommand({ type: 'Contact' }, 'closed', 'state')).toBe('CLOSED');
+  });
+});
+
+describe('getExpectedState', () => {
+  it('should derive the state of Dimmer and Rollershutter keywords, accepting any brightness after ON', () => {
+    expect(getExpectedState({ type: 'Dimmer' }, 'ON')?.matches('100')).toBe(true);
+    expect(getExpectedState({ type: 'Dimmer' }, 'ON')?.matches('40')).toBe(true);
+    expect(getExpectedState({ type: 'Dimmer' }, 'ON')?.matches('0')).toBe(false);
+    expect(getExpectedState({ type: 'Dimmer' }, 'OFF')?.matches('0')).toBe(true);
+    expect(getExpectedState({ type: 'Rollershutter' }, 'UP')?.state).toBe('0');
+    expect(getExpectedState({ type: 'Group', groupType: 'Rollershutter' }, 'DOWN')?.matches('100')).toBe(true);
+    expect(getExpectedState({ type: 'Switch' }, 'ON')?.matches('ON')).toBe(true);
+  });
+
+  it('should match the brightness of Color items for ON, OFF and percentages', () => {
+    expect(getExpectedState({ type: 'Color' }, 'ON')?.matches('30,80,100')).toBe(true);
+    expect(getExpectedState({ type: 'Color' }, 'ON')?.matches('30,80,25')).toBe(true);
+    expect(getExpectedState({ type: 'Color' }, 'ON')?.matches('30,80,0')).toBe(false);
+    expect(getExpectedState({ type: 'Color' }, 'OFF')?.matches('30,80,100')).toBe(false);
+    expect(getExpectedState({ type: 'Color' }, '50')?.matches('30,80,50')).toBe(true);
+    expect(getExpectedState({ type: 'Color' }, '0,100,100')?.matches('0,100,100')).toBe(true);
+  });
+
+  it('should return null for commands without a predictable state', () => {
+    expect(getExpectedState({ type: 'Dimmer' }, 'INCREASE')).toBeNull();
+    expect(getExpectedState({ type: 'Rollershutter' }, 'STOP')).toBeNull();
+    expect(getExpectedState({ type: 'Player' }, 'PLAY')).toBeNull();
+  });
+});
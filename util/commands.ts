@@ -0,0 +1,237 @@
+import { parseNumericState, rgbToHsb, statesMatch } from './state';
+import { convertUnit } from './units';
+
+/**
+ * The parts of an item definition needed to validate commands and state updates.
+ */
+export interface CommandTarget {
+  type: string;
+  groupType?: string;
+  /** Unit of a quantity item, as provided by openHAB 4+ in `unitSymbol` */
+  unitSymbol?: string;
+}
+
+export type CommandMode = 'command' | 'state';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function parsePercent(value: string): number | null {
+  const numeric = parseNumericState(value);
+  if (!numeric || (numeric.unit !== null && numeric.unit !== '%')) {
+    return null;
+  }
+  return round(clamp(numeric.value, 0, 100));
+}
+
+function normalizeKeyword(value: string, keywords: string[]): string | null {
+  const upper = value.toUpperCase();
+  return keywords.includes(upper) ? upper : null;
+}
+
+function normalizeColor(value: string): string {
+  const keyword = normalizeKeyword(value, ['ON', 'OFF', 'INCREASE', 'DECREASE']);
+  if (keyword) {
+    return keyword;
+  }
+
+  const hex = /^#?([0-9a-f]{6})$/i.exec(value);
+  if (hex) {
+    const rgb = [0, 2, 4].map((offset) => parseInt(hex[1].slice(offset, offset + 2), 16));
+    return rgbToHsb(rgb[0], rgb[1], rgb[2]).map(round).join(',');
+  }
+
+  const rgb = /^rgb\(\s*(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)\s*\)$/i.exec(value);
+  if (rgb) {
+    const [red, green, blue] = rgb.slice(1).map((channel) => clamp(Number(channel), 0, 255));
+    return rgbToHsb(red, green, blue).map(round).join(',');
+  }
+
+  const hsb = /^(?:hsb\()?\s*(-?\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)\s*\)?$/i.exec(value);
+  if (hsb) {
+    const hue = ((Number(hsb[1]) % 360) + 360) % 360;
+    return [hue, clamp(Number(hsb[2]), 0, 100), clamp(Number(hsb[3]), 0, 100)].map(round).join(',');
+  }
+
+  const brightness = parsePercent(value);
+  if (brightness !== null) {
+    return String(brightness);
+  }
+  throw new Error('expected ON/OFF, a hex color (#ff8800), rgb(r,g,b), h,s,b or a brightness in percent');
+}
+
+function normalizeNumber(value: string, type: string, unitSymbol?: string): string {
+  const numeric = parseNumericState(value);
+  if (!numeric) {
+    throw new Error('expected a number');
+  }
+  const hasDimension = type.includes(':');
+  if (numeric.unit === null) {
+    return String(numeric.value);
+  }
+  if (!hasDimension) {
+    throw new Error(`expected a number without unit, got "${numeric.unit}"`);
+  }
+  if (!unitSymbol || unitSymbol === numeric.unit) {
+    return `${numeric.value} ${numeric.unit}`;
+  }
+  const converted = convertUnit(numeric.value, numeric.unit, unitSymbol);
+  if (converted === null) {
+    throw new Error(`cannot convert "${numeric.unit}" to the item unit "${unitSymbol}"`);
+  }
+  return `${Math.round(converted * 1e6) / 1e6} ${unitSymbol}`;
+}
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/**
+ * ISO dates are passed on as entered, so that openHAB keeps their offset; other dates are converted to UTC.
+ */
+function normalizeDateTime(value: string): string {
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error('expected an ISO date (e.g., 2026-01-01T10:00:00+01:00) or epoch milliseconds');
+  }
+  return ISO_DATE_TIME.test(value) ? value : date.toISOString();
+}
+
+/**
+ * Validates a command or state update for the given item and converts it to the format openHAB expects,
+ * e.g. `#ff0000` to `0,100,100` for Color items, `true` to `ON` for Switch items or `68 °F` to `20 °C` for
+ * a Number:Temperature item in °C. Dimmer and Rollershutter percentages are clamped to 0-100.
+ * @throws Error with the reason if the value is not accepted by the item type
+ */
+export function normalizeCommand(target: CommandTarget, value: string, mode: CommandMode): string {
+  const trimmed = value.trim();
+  if (mode === 'state' && ['NULL', 'UNDEF'].includes(trimmed.toUpperCase())) {
+    return trimmed.toUpperCase();
+  }
+  if (mode === 'command' && trimmed.toUpperCase() === 'REFRESH') {
+    return 'REFRESH';
+  }
+
+  const type = target.type === 'Group' && target.groupType ? target.groupType : target.type;
+  const baseType = type.split(':')[0];
+  const invalid = (expected: string) => new Error(`expected ${expected}`);
+
+  switch (baseType) {
+    case 'Switch': {
+      const normalized = trimmed.toUpperCase();
+      if (['ON', 'TRUE', '1'].includes(normalized)) return 'ON';
+      if (['OFF', 'FALSE', '0'].includes(normalized)) return 'OFF';
+      throw invalid('ON/OFF or true/false');
+    }
+    case 'Contact': {
+      if (mode === 'command') {
+        throw new Error('Contact items do not accept commands, use Update State instead');
+      }
+      const normalized = trimmed.toUpperCase();
+      if (['OPEN', 'TRUE', '1'].includes(normalized)) return 'OPEN';
+      if (['CLOSED', 'FALSE', '0'].includes(normalized)) return 'CLOSED';
+      throw invalid('OPEN/CLOSED');
+    }
+    case 'Dimmer': {
+      const keyword = normalizeKeyword(trimmed, ['ON', 'OFF', 'INCREASE', 'DECREASE']);
+      if (keyword) return keyword;
+      const percent = parsePercent(trimmed);
+      if (percent !== null) return String(percent);
+      throw invalid('ON/OFF, INCREASE/DECREASE or a percentage (0-100)');
+    }
+    case 'Rollershutter': {
+      const keyword = normalizeKeyword(trimmed, ['UP', 'DOWN', 'STOP', 'MOVE']);
+      if (keyword) return keyword;
+      const percent = parsePercent(trimmed);
+      if (percent !== null) return String(percent);
+      throw invalid('UP/DOWN, STOP/MOVE or a percentage (0-100)');
+    }
+    case 'Color':
+      return normalizeColor(trimmed);
+    case 'Number':
+      return normalizeNumber(trimmed, type, target.unitSymbol);
+    case 'DateTime':
+      return normalizeDateTime(trimmed);
+    case 'Player': {
+      const keyword = normalizeKeyword(trimmed, ['PLAY', 'PAUSE', 'NEXT', 'PREVIOUS', 'REWIND', 'FASTFORWARD']);
+      if (keyword) return keyword;
+      throw invalid('PLAY, PAUSE, NEXT, PREVIOUS, REWIND or FASTFORWARD');
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * The state an item is expected to reach after a command.
+ */
+export interface ExpectedState {
+  /** The expected state as shown in the output, e.g. `100`, `brightness 0` or `brightness above 0` */
+  state: string;
+  matches(state: string): boolean;
+}
+
+function exactState(expected: string): ExpectedState {
+  return { state: expected, matches: (state) => statesMatch(expected, state) };
+}
+
+function brightnessState(brightness: string): ExpectedState {
+  return {
+    state: `brightness ${brightness}`,
+    matches: (state) => {
+      const parts = state.split(',');
+      return parts.length === 3 && statesMatch(brightness, parts[2]);
+    },
+  };
+}
+
+/**
+ * Matches any brightness above 0, as ON restores the previous brightness of Dimmer and Color items.
+ */
+function switchedOnState(isColor: boolean): ExpectedState {
+  return {
+    state: 'brightness above 0',
+    matches: (state) => {
+      const parts = state.split(',');
+      if (isColor && parts.length !== 3) {
+        return false;
+      }
+      const brightness = parseNumericState(isColor ? parts[2] : state);
+      return brightness !== null && brightness.value > 0;
+    },
+  };
+}
+
+/**
+ * Derives the state an item reaches after a (normalized) command from its type, e.g. `0` after OFF for a Dimmer or
+ * `0` after UP for a Rollershutter. ON, OFF and percentages only set the brightness of Color items.
+ * @returns null if the state cannot be predicted, e.g. after INCREASE, STOP or a Player command
+ */
+export function getExpectedState(target: CommandTarget, command: string): ExpectedState | null {
+  const trimmed = command.trim();
+  const keyword = trimmed.toUpperCase();
+  if (['REFRESH', 'INCREASE', 'DECREASE', 'STOP', 'MOVE'].includes(keyword)) {
+    return null;
+  }
+
+  const type = target.type === 'Group' && target.groupType ? target.groupType : target.type;
+  switch (type.split(':')[0]) {
+    case 'Dimmer':
+      if (keyword === 'ON') {
+        return switchedOnState(false);
+      }
+      return exactState(keyword === 'OFF' ? '0' : trimmed);
+    case 'Rollershutter':
+      return exactState(keyword === 'UP' ? '0' : keyword === 'DOWN' ? '100' : trimmed);
+    case 'Color':
+      if (keyword === 'ON') {
+        return switchedOnState(true);
+      }
+      if (keyword === 'OFF') {
+        return brightnessState('0');
+      }
+      return parsePercent(trimmed) !== null ? brightnessState(trimmed) : exactState(trimmed);
+    case 'Player':
+      return null;
+    default:
+      return exactState(trimmed);
+  }
+}
@@ -0,0 +1,131 @@
+import { diffConfig, parseConfigDocument, toExportedItem, toExportedThing } from './configBackup';
+
+describe('toExportedItem', () => {
+  it('should keep the definition and writable metadata', () => {
+    expect(
+      toExportedItem({
+        name: 'Kitchen_Light',
+        type: 'Switch',
+        state: 'ON',
+        editable: true,
+        tags: ['Switch', 'Lighting'],
+        groupNames: ['gKitchen'],
+        metadata: {
+          semantics: { value: 'Point_Control_Switch' },
+          alexa: { value: 'Light' },
+        },
+      }),
+    ).toEqual({
+      name: 'Kitchen_Light',
+      type: 'Switch',
+      label: '',
+      category: '',
+      groupNames: ['gKitchen'],
+      tags: ['Lighting', 'Switch'],
+      metadata: { alexa: { value: 'Light', config: {} } },
+    });
+  });
+});
+
+describe('toExportedThing', () => {
+  it('should drop runtime information', () => {
+    expect(
+      toExportedThing({
+        UID: 'mqtt:topic:broker:lamp',
+        thingTypeUID: 'mqtt:topic',
+        statusInfo: { status: 'ONLINE' },
+        properties: { firmware: '1.2' },
+        channels: [{ uid: 'mqtt:topic:broker:lamp:power', linkedItems: ['Lamp_Power'] }],
+      }),
+    ).toEqual({
+      UID: 'mqtt:topic:broker:lamp',
+      thingTypeUID: 'mqtt:topic',
+      channels: [{ uid: 'mqtt:topic:broker:lamp:power' }],
+    });
+  });
+});
+
+describe('parseConfigDocument', () => {
+  it('should reject documents without entities or identifiers', () => {
+    expect(() => parseConfigDocument([])).toThrow('expected a JSON object');
+    expect(() => parseConfigDocument({ version: 1 })).toThrow('expected at least one of');
+    expect(() => parseConfigDocument({ links: [{ itemName: 'Lamp_Power' }] })).toThrow('links[0] has no');
+  });
+
+  it('should return the entity lists with defaults for version and export time', () => {
+    expect(parseConfigDocument({ items: [{ name: 'Kitchen_Light', type: 'Switch' }] })).toEqual({
+      version: 1,
+      exportedAt: '',
+      items: [{ name: 'Kitchen_Light', type: 'Switch' }],
+    });
+  });
+});
+
+describe('diffConfig', () => {
+  const current = {
+    items: [
+      toExportedItem({ name: 'Lamp_Power', type: 'Switch', label: 'Lamp' }),
+      toExportedItem({ name: 'Old_Item', type: 'String' }),
+    ],
+    rules: [{ uid: 'night', name: 'Night' }],
+  };
+
+  it('should report creates, updates and unchanged entities', () => {
+    const changes = diffConfig(
+      {
+        version: 1,
+        exportedAt: '',
+        items: [
+          { name: 'Lamp_Power', type: 'Switch', label: 'Lamp', tags: [] },
+          { name: 'Old_Item', type: 'String', label: 'Renamed' },
+          { name: 'New_Item', type: 'Number' },
+        ],
+      },
+      current,
+      false,
+    );
+    expect(changes.map(({ id, action, fields }) => ({ id, action, fields }))).toEqual([
+      { id: 'Lamp_Power', action: 'unchanged', fields: undefined },
+      { id: 'Old_Item', action: 'update', fields: ['label'] },
+      { id: 'New_Item', action: 'create', fields: undefined },
+    ]);
+  });
+
+  it('should keep undeclared metadata namespaces unless their deletion is requested', () => {
+    const server = {
+      items: [
+        toExportedItem({
+          name: 'Lamp_Power',
+          type: 'Switch',
+          metadata: { alexa: { value: 'Light' }, homekit: { value: 'Lighting' } },
+        }),
+      ],
+    };
+    const document = {
+      version: 1,
+      exportedAt: '',
+      items: [{ name: 'Lamp_Power', type: 'Switch', metadata: { alexa: { value: 'Switch' } } }],
+    };
+
+    const [kept] = diffConfig(document, server, false);
+    expect(kept.action).toBe('update');
+    expect(kept.entity?.metadata).toEqual({
+      alexa: { value: 'Switch', config: {} },
+      homekit: { value: 'Lighting', config: {} },
+    });
+    expect(diffConfig({ ...document, items: [{ name: 'Lamp_Power', type: 'Switch' }] }, server, false)[0].action).toBe(
+      'unchanged',
+    );
+
+    const [replaced] = diffConfig(document, server, false, true);
+    expect(replaced.entity?.metadata).toEqual({ alexa: { value: 'Switch', config: {} } });
+  });
+
+  it('should delete missing entities only for types in the document', () => {
+    const changes = diffConfig({ version: 1, exportedAt: '', items: [] }, current, true);
+    expect(changes.map(({ type, id, action }) => `${type}:${id}:${action}`)).toEqual([
+      'items:Lamp_Power:delete',
+      'items:Old_Item:delete',
+    ]);
+  });
+});
@@ -0,0 +1,255 @@
+import type { IDataObject } from 'n8n-workflow';
+
+export type EntityType = 'items' | 'things' | 'links' | 'rules';
+
+export const ENTITY_TYPES: EntityType[] = ['items', 'things', 'links', 'rules'];
+
+/**
+ * A configuration export: managed items (with metadata), things, links and rules as accepted by the REST API.
+ * Entity types missing from a document are left untouched on import. A type alias rather than an interface, so that
+ * the document can be output as IDataObject.
+ */
+export type ConfigDocument = {
+  version: number;
+  exportedAt: string;
+  items?: IDataObject[];
+  things?: IDataObject[];
+  links?: IDataObject[];
+  rules?: IDataObject[];
+};
+
+/**
+ * One difference between a configuration document and the server.
+ */
+export interface ConfigChange {
+  type: EntityType;
+  id: string;
+  action: 'create' | 'update' | 'delete' | 'unchanged';
+  /** Top-level fields that differ, for updates */
+  fields?: string[];
+  /** The entity from the document, for creates and updates */
+  entity?: IDataObject;
+  /** The entity on the server, for updates and deletes */
+  current?: IDataObject;
+}
+
+/** Metadata namespaces maintained by openHAB itself, which cannot be written */
+const GENERATED_NAMESPACES = ['semantics'];
+
+function pick(source: IDataObject, keys: string[]): IDataObject {
+  const result: IDataObject = {};
+  for (const key of keys) {
+    if (source[key] !== undefined && source[key] !== null) {
+      result[key] = source[key];
+    }
+  }
+  return result;
+}
+
+const sortedStrings = (value: unknown) => (Array.isArray(value) ? value.map(String).sort() : []);
+
+/**
+ * Reduces an item from GET /rest/items?metadata=.* to its definition and metadata.
+ */
+export function toExportedItem(item: IDataObject): IDataObject {
+  const exported: IDataObject = {
+    ...pick(item, ['name', 'type', 'groupType', 'function']),
+    label: (item.label as string | undefined) ?? '',
+    category: (item.category as string | undefined) ?? '',
+    groupNames: sortedStrings(item.groupNames),
+    tags: sortedStrings(item.tags),
+  };
+  const metadata: IDataObject = {};
+  for (const [namespace, entry] of Object.entries((item.metadata as IDataObject | undefined) ?? {})) {
+    if (!GENERATED_NAMESPACES.includes(namespace)) {
+      const { value, config } = entry as IDataObject;
+      metadata[namespace] = { value: value ?? '', config: config ?? {} };
+    }
+  }
+  if (Object.keys(metadata).length > 0) {
+    exported.metadata = metadata;
+  }
+  return exported;
+}
+
+/**
+ * Reduces a thing from GET /rest/things to the definition accepted by POST/PUT, without runtime properties.
+ */
+export function toExportedThing(thing: IDataObject): IDataObject {
+  const exported = pick(thing, ['UID', 'thingTypeUID', 'bridgeUID', 'label', 'location', 'configuration']);
+  exported.channels = ((thing.channels as IDataObject[] | undefined) ?? []).map((channel) => {
+    const definition = { ...channel };
+    delete definition.linkedItems;
+    return definition;
+  });
+  return exported;
+}
+
+export function toExportedLink(link: IDataObject): IDataObject {
+  return {
+    itemName: link.itemName,
+    channelUID: link.channelUID,
+    configuration: link.configuration ?? {},
+  };
+}
+
+export function toExportedRule(rule: IDataObject): IDataObject {
+  return pick(rule, [
+    'uid',
+    'name',
+    'description',
+    'tags',
+    'visibility',
+    'templateUID',
+    'configuration',
+    'configDescriptions',
+    'triggers',
+    'conditions',
+    'actions',
+  ]);
+}
+
+export const EXPORTERS: Record<EntityType, (entity: IDataObject) => IDataObject> = {
+  items: toExportedItem,
+  things: toExportedThing,
+  links: toExportedLink,
+  rules: toExportedRule,
+};
+
+/**
+ * Whether the entity is managed through the REST API, i.e. not defined in a configuration file.
+ */
+export function isManaged(entity: IDataObject): boolean {
+  return entity.editable !== false;
+}
+
+export function getEntityId(type: EntityType, entity: IDataObject): string {
+  switch (type) {
+    case 'items':
+      return String(entity.name ?? '');
+    case 'things':
+      return String(entity.UID ?? '');
+    case 'links':
+      return `${String(entity.itemName ?? '')} -> ${String(entity.channelUID ?? '')}`;
+    case 'rules':
+      return String(entity.uid ?? '');
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((key) => (value as IDataObject)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as IDataObject)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Validates a configuration document.
+ * @throws Error describing the first problem
+ */
+export function parseConfigDocument(value: unknown): ConfigDocument {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('expected a JSON object as created by Export');
+  }
+  const document = value as IDataObject;
+  const types = ENTITY_TYPES.filter((type) => document[type] !== undefined);
+  if (types.length === 0) {
+    throw new Error(`expected at least one of ${ENTITY_TYPES.join(', ')}`);
+  }
+  const parsed: ConfigDocument = {
+    version: typeof document.version === 'number' ? document.version : 1,
+    exportedAt: typeof document.exportedAt === 'string' ? document.exportedAt : '',
+  };
+  for (const type of types) {
+    const entities: unknown = document[type];
+    if (!Array.isArray(entities)) {
+      throw new Error(`"${type}" must be an array`);
+    }
+    parsed[type] = entities.map((entity: unknown, index) => {
+      const isValid =
+        entity !== null &&
+        typeof entity === 'object' &&
+        !Array.isArray(entity) &&
+        (type === 'links'
+          ? Boolean((entity as IDataObject).itemName && (entity as IDataObject).channelUID)
+          : Boolean(getEntityId(type, entity as IDataObject)));
+      if (!isValid) {
+        throw new Error(`${type}[${index}] has no ${type === 'links' ? 'itemName/channelUID' : 'identifier'}`);
+      }
+      return entity as IDataObject;
+    });
+  }
+  return parsed;
+}
+
+/**
+ * Adds the metadata namespaces of the existing item that the desired item does not declare, so that they are kept.
+ */
+function withUndeclaredMetadata(entity: IDataObject, existing: IDataObject): IDataObject {
+  const existingMetadata = (existing.metadata as IDataObject | undefined) ?? {};
+  if (Object.keys(existingMetadata).length === 0) {
+    return entity;
+  }
+  return { ...entity, metadata: { ...existingMetadata, ...((entity.metadata as IDataObject | undefined) ?? {}) } };
+}
+
+/**
+ * Compares a configuration document with the server configuration.
+ * @param current The managed entities on the server, already reduced with the exporters
+ * @param deleteMissing Whether managed entities missing from the document are to be deleted
+ * @param deleteMissingMetadata Whether metadata namespaces of items that the document does not declare are to be
+ * deleted, otherwise only declared namespaces are added or updated
+ * @returns The changes for all entity types contained in the document
+ */
+export function diffConfig(
+  document: ConfigDocument,
+  current: Partial<Record<EntityType, IDataObject[]>>,
+  deleteMissing: boolean,
+  deleteMissingMetadata = false,
+): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  for (const type of ENTITY_TYPES) {
+    const desired = document[type];
+    if (!desired) {
+      continue;
+    }
+    const currentById = new Map((current[type] ?? []).map((entity) => [getEntityId(type, entity), entity]));
+    const desiredIds = new Set<string>();
+
+    for (const raw of desired) {
+      const exported = EXPORTERS[type](raw);
+      const id = getEntityId(type, exported);
+      desiredIds.add(id);
+      const existing = currentById.get(id);
+      if (!existing) {
+        changes.push({ type, id, action: 'create', entity: exported });
+        continue;
+      }
+      const entity = type === 'items' && !deleteMissingMetadata ? withUndeclaredMetadata(exported, existing) : exported;
+      const fields = [...new Set([...Object.keys(entity), ...Object.keys(existing)])]
+        .filter((field) => stableStringify(entity[field]) !== stableStringify(existing[field]))
+        .sort();
+      changes.push(
+        fields.length > 0
+          ? { type, id, action: 'update', fields, entity, current: existing }
+          : { type, id, action: 'unchanged' },
+      );
+    }
+
+    if (deleteMissing) {
+      for (const [id, entity] of currentById) {
+        if (!desiredIds.has(id)) {
+          changes.push({ type, id, action: 'delete', current: entity });
+        }
+      }
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,43 @@
+import { ConfigDescriptionParameter, validateConfiguration } from './configDescription';
+
+const parameters: ConfigDescriptionParameter[] = [
+  { name: 'ipAddress', type: 'TEXT', required: true },
+  { name: 'refreshInterval', type: 'INTEGER', min: 10, max: 3600 },
+  { name: 'factor', type: 'DECIMAL' },
+  { name: 'useTls', type: 'BOOLEAN' },
+  { name: 'mode', type: 'TEXT', limitToOptions: true, options: [{ value: 'fast' }, { value: 'slow' }] },
+  { name: 'firmware', type: 'TEXT', readOnly: true },
+];
+
+describe('validateConfiguration', () => {
+  it('should convert values to the declared types', () => {
+    const result = validateConfiguration(
+      { refreshInterval: '60', factor: 1.5, useTls: 'true', mode: 'fast' },
+      { ipAddress: '192.168.1.10' },
+      parameters,
+    );
+    expect(result.errors).toEqual([]);
+    expect(result.configuration).toEqual({ refreshInterval: 60, factor: 1.5, useTls: true, mode: 'fast' });
+  });
+
+  it('should report invalid values', () => {
+    const result = validateConfiguration(
+      { refreshInterval: 5, factor: 'abc', useTls: 'yes', mode: 'medium', firmware: '1.0', unknown: 1 },
+      { ipAddress: '192.168.1.10' },
+      parameters,
+    );
+    expect(result.errors).toEqual([
+      '"refreshInterval" must be at least 10',
+      '"factor" must be a number',
+      '"useTls" must be a boolean',
+      '"mode" must be one of fast, slow',
+      '"firmware" is read-only',
+      '"unknown" is not a known configuration parameter',
+    ]);
+  });
+
+  it('should report required parameters missing after the update', () => {
+    const result = validateConfiguration({ ipAddress: '' }, { ipAddress: '192.168.1.10' }, parameters);
+    expect(result.errors).toEqual(['"ipAddress" is required']);
+  });
+});
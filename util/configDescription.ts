@@ -0,0 +1,111 @@
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * A configuration parameter as returned in `configParameters` of a thing type or other config description.
+ */
+export interface ConfigDescriptionParameter extends IDataObject {
+  name: string;
+  type: 'TEXT' | 'INTEGER' | 'DECIMAL' | 'BOOLEAN';
+  required?: boolean;
+  readOnly?: boolean;
+  min?: number;
+  max?: number;
+  limitToOptions?: boolean;
+  options?: Array<{ value: string; label?: string }>;
+}
+
+export interface ConfigValidationResult {
+  /** The configuration with values converted to the parameter types (e.g. "30" to 30 for INTEGER) */
+  configuration: IDataObject;
+  errors: string[];
+}
+
+function normalizeValue(parameter: ConfigDescriptionParameter, value: unknown): { value?: unknown; error?: string } {
+  if (value === null) {
+    return { value };
+  }
+  switch (parameter.type) {
+    case 'BOOLEAN':
+      if (typeof value === 'boolean') return { value };
+      if (value === 'true' || value === 'false') return { value: value === 'true' };
+      return { error: `"${parameter.name}" must be a boolean` };
+    case 'INTEGER':
+    case 'DECIMAL': {
+      const numeric = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+        return { error: `"${parameter.name}" must be a number` };
+      }
+      if (parameter.type === 'INTEGER' && !Number.isInteger(numeric)) {
+        return { error: `"${parameter.name}" must be an integer` };
+      }
+      if (parameter.min !== undefined && numeric < parameter.min) {
+        return { error: `"${parameter.name}" must be at least ${parameter.min}` };
+      }
+      if (parameter.max !== undefined && numeric > parameter.max) {
+        return { error: `"${parameter.name}" must be at most ${parameter.max}` };
+      }
+      return { value: numeric };
+    }
+    default:
+      if (typeof value === 'object') {
+        return { error: `"${parameter.name}" must be a text value` };
+      }
+      return { value: String(value) };
+  }
+}
+
+/**
+ * Validates a configuration update against a config description and converts values to the declared types.
+ * @param update The parameters to change
+ * @param current The current configuration, used to check that required parameters remain set
+ * @param parameters The config description parameters
+ */
+export function validateConfiguration(
+  update: IDataObject,
+  current: IDataObject,
+  parameters: ConfigDescriptionParameter[],
+): ConfigValidationResult {
+  const byName = new Map(parameters.map((parameter) => [parameter.name, parameter]));
+  const configuration: IDataObject = {};
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(update)) {
+    const parameter = byName.get(name);
+    if (!parameter) {
+      errors.push(`"${name}" is not a known configuration parameter`);
+      continue;
+    }
+    if (parameter.readOnly) {
+      errors.push(`"${name}" is read-only`);
+      continue;
+    }
+    const normalized = normalizeValue(parameter, value);
+    if (normalized.error) {
+      errors.push(normalized.error);
+      continue;
+    }
+    if (
+      parameter.limitToOptions &&
+      parameter.options &&
+      parameter.options.length > 0 &&
+      normalized.value !== null &&
+      !parameter.options.some((option) => option.value === String(normalized.value))
+    ) {
+      errors.push(
+        `"${name}" must be one of ${parameter.options.map((option) => option.value).join(', ')}`,
+      );
+      continue;
+    }
+    configuration[name] = normalized.value as IDataObject[string];
+  }
+
+  const merged = { ...current, ...configuration };
+  for (const parameter of parameters) {
+    const value = merged[parameter.name];
+    if (parameter.required && (value === undefined || value === null || value === '')) {
+      errors.push(`"${parameter.name}" is required`);
+    }
+  }
+
+  return { configuration, errors };
+}
@@ -0,0 +1,203 @@
+/**
+ * A token of the openHAB DSL used in `.items` and `.things` files.
+ */
+export interface DslToken {
+  kind: 'id' | 'string' | 'number' | 'symbol';
+  value: string;
+  line: number;
+  /** Whether whitespace or a comment precedes the token */
+  spaced: boolean;
+}
+
+export type DslValue = string | number | boolean;
+
+const SYMBOLS = '<>()[]{}=,@';
+const ID_PATTERN = /[A-Za-z0-9_:.#\-]/;
+
+/**
+ * Splits DSL text into tokens, skipping `//` and `/* *\/` comments.
+ * @throws Error for unterminated strings or comments and unexpected characters
+ */
+export function tokenizeDsl(text: string): DslToken[] {
+  const tokens: DslToken[] = [];
+  let line = 1;
+  let spaced = true;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '\n') {
+      line++;
+      spaced = true;
+      i++;
+    } else if (/\s/.test(char)) {
+      spaced = true;
+      i++;
+    } else if (text.startsWith('//', i)) {
+      while (i < text.length && text[i] !== '\n') i++;
+      spaced = true;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      if (end === -1) {
+        throw new Error(`Unterminated comment in line ${line}`);
+      }
+      line += text.slice(i, end).split('\n').length - 1;
+      i = end + 2;
+      spaced = true;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      const startLine = line;
+      i++;
+      while (i < text.length && text[i] !== char) {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const escaped = text[++i];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+        } else {
+          if (text[i] === '\n') line++;
+          value += text[i];
+        }
+        i++;
+      }
+      if (i >= text.length) {
+        throw new Error(`Unterminated string in line ${startLine}`);
+      }
+      i++;
+      tokens.push({ kind: 'string', value, line: startLine, spaced });
+      spaced = false;
+    } else if (SYMBOLS.includes(char)) {
+      tokens.push({ kind: 'symbol', value: char, line, spaced });
+      spaced = false;
+      i++;
+    } else if (ID_PATTERN.test(char)) {
+      let value = '';
+      while (i < text.length && ID_PATTERN.test(text[i])) {
+        value += text[i++];
+      }
+      const kind = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value) ? 'number' : 'id';
+      tokens.push({ kind, value, line, spaced });
+      spaced = false;
+    } else {
+      throw new Error(`Unexpected character "${char}" in line ${line}`);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Sequential access to tokens with helpers for the common DSL constructs.
+ */
+export class DslReader {
+  private position = 0;
+
+  constructor(private readonly tokens: DslToken[]) {}
+
+  get done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  peek(offset = 0): DslToken | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  next(): DslToken {
+    const token = this.tokens[this.position];
+    if (!token) {
+      const last = this.tokens[this.tokens.length - 1];
+      throw new Error(`Unexpected end of file${last ? ` after line ${last.line}` : ''}`);
+    }
+    this.position++;
+    return token;
+  }
+
+  /** Whether the next token is the given symbol or keyword */
+  at(value: string): boolean {
+    const token = this.peek();
+    return token !== undefined && token.kind !== 'string' && token.value === value;
+  }
+
+  /** Consumes the next token if it is the given symbol or keyword */
+  accept(value: string): boolean {
+    if (this.at(value)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  expect(value: string): void {
+    const token = this.next();
+    if (token.kind === 'string' || token.value !== value) {
+      throw new Error(`Expected "${value}" but found "${token.value}" in line ${token.line}`);
+    }
+  }
+
+  expectKind(kind: DslToken['kind'], description: string): DslToken {
+    const token = this.next();
+    if (token.kind !== kind) {
+      throw new Error(`Expected ${description} but found "${token.value}" in line ${token.line}`);
+    }
+    return token;
+  }
+
+  /** Reads a string, number, boolean or bare identifier value */
+  value(): DslValue {
+    const token = this.next();
+    if (token.kind === 'string') return token.value;
+    if (token.kind === 'number') return Number(token.value);
+    if (token.kind === 'id' && (token.value === 'true' || token.value === 'false')) return token.value === 'true';
+    if (token.kind === 'id') return token.value;
+    throw new Error(`Expected a value but found "${token.value}" in line ${token.line}`);
+  }
+
+  /**
+   * Reads a `[key=value, ...]` configuration block if present. Lists of values are returned as arrays.
+   */
+  configuration(): Record<string, DslValue | DslValue[]> {
+    const config: Record<string, DslValue | DslValue[]> = {};
+    if (!this.accept('[')) {
+      return config;
+    }
+    while (!this.accept(']')) {
+      const key = this.expectKind('id', 'a configuration key').value;
+      this.expect('=');
+      const values = [this.value()];
+      // A list of values continues with a comma that is not followed by "key ="
+      while (this.at(',') && !(this.peek(1)?.kind === 'id' && this.peek(2)?.value === '=')) {
+        this.next();
+        values.push(this.value());
+      }
+      config[key] = values.length === 1 ? values[0] : values;
+      if (!this.at(']')) {
+        this.expect(',');
+      }
+    }
+    return config;
+  }
+}
+
+/**
+ * Renders a string literal with escaped quotes and backslashes.
+ */
+export function quoteDsl(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * Renders a configuration block, or an empty string for an empty configuration. Objects are rendered as JSON
+ * strings, as the DSL has no syntax for them.
+ */
+export function renderDslConfiguration(config: Record<string, unknown> | undefined): string {
+  const renderValue = (value: unknown): string =>
+    typeof value === 'number' || typeof value === 'boolean'
+      ? String(value)
+      : quoteDsl(typeof value === 'string' ? value : JSON.stringify(value));
+  const entries = Object.entries(config ?? {}).filter(([, value]) => value !== undefined && value !== null);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `[${entries
+    .map(([key, value]) =>
+      `${key}=${Array.isArray(value) && value.every((entry) => typeof entry !== 'object') ? value.map(renderValue).join(', ') : renderValue(value)}`,
+    )
+    .join(', ')}]`;
+}
@@ -0,0 +1,77 @@
+import { compareState, createEventCondition, parsePath } from './eventConditions';
+
+describe('parsePath', () => {
+  it('should split property names and indexes', () => {
+    expect(parsePath('$.statusInfo.status')).toEqual(['statusInfo', 'status']);
+    expect(parsePath("members[0]['display state']")).toEqual(['members', 0, 'display state']);
+    expect(parsePath('$')).toEqual([]);
+    expect(() => parsePath('$..value')).toThrow('Invalid path');
+  });
+});
+
+describe('compareState', () => {
+  it('should compare numbers with units', () => {
+    expect(compareState('17.5 °C', 'less', '18 °C')).toBe(true);
+    expect(compareState('70 °F', 'greater', '20 °C')).toBe(true);
+    expect(compareState('1.5 kW', 'greaterOrEqual', '1500 W')).toBe(true);
+    expect(compareState('1.5 kW', 'less', '18 °C')).toBe(false);
+    expect(compareState('ON', 'greater', '1')).toBe(false);
+  });
+
+  it('should compare states and texts', () => {
+    expect(compareState('on', 'equal', 'ON')).toBe(true);
+    expect(compareState('20 °C', 'notEqual', '68 °F')).toBe(false);
+    expect(compareState('OFFLINE', 'regex', '^OFF')).toBe(true);
+    expect(compareState(undefined, 'exists', '')).toBe(false);
+  });
+});
+
+describe('createEventCondition', () => {
+  it('should match transitions using the old value or the last seen value', () => {
+    const condition = createEventCondition({ type: 'transition', path: '$.value', from: ['OFF'], to: ['ON'] });
+    expect(condition.evaluate('Light', { value: 'ON', oldValue: 'OFF' })).toEqual({ previousValue: 'OFF' });
+    expect(condition.evaluate('Motion', { value: 'ON' })).toBeNull();
+    expect(condition.evaluate('Motion', { value: 'OFF' })).toBeNull();
+    expect(condition.evaluate('Motion', { value: 'ON' })).toEqual({ previousValue: 'OFF' });
+    expect(condition.evaluate('Motion', { value: 'ON' })).toBeNull();
+  });
+
+  it('should keep the previous value per event type', () => {
+    const condition = createEventCondition({ type: 'transition', path: '$.value', from: ['OFF'], to: ['ON'] });
+    expect(condition.evaluate('Light', { value: 'OFF' }, 'ItemStateEvent')).toBeNull();
+    expect(condition.evaluate('Light', { value: 'ON' }, 'ItemCommandEvent')).toBeNull();
+    expect(condition.evaluate('Light', { value: 'ON' }, 'ItemStateEvent')).toEqual({ previousValue: 'OFF' });
+    expect(condition.evaluate('Light', { value: 'OFF' }, 'ItemCommandEvent')).toBeNull();
+    expect(condition.evaluate('Light', { value: 'ON' }, 'ItemStateEvent')).toBeNull();
+  });
+
+  it('should report threshold crossings once with hysteresis', () => {
+    const condition = createEventCondition({
+      type: 'crossing',
+      path: 'value',
+      direction: 'falling',
+      threshold: '18 °C',
+      hysteresis: 0.5,
+    });
+    const crossings = ['19 °C', '17.9 °C', '18.2 °C', '17.8 °C', '18.6 °C', '64 °F'].map(
+      (value) => condition.evaluate('Temperature', { value })?.crossing ?? null,
+    );
+    expect(crossings).toEqual([null, 'falling', null, null, null, 'falling']);
+  });
+
+  it('should match regular expressions compiled once', () => {
+    const condition = createEventCondition({ type: 'compare', path: '$.status', operator: 'regex', value: '^OFF' });
+    expect(condition.evaluate('Thing', { status: 'OFFLINE' })).toEqual({});
+    expect(condition.evaluate('Thing', { status: 'ONLINE' })).toBeNull();
+    expect(condition.evaluate('Thing', {})).toBeNull();
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => createEventCondition({ type: 'compare', path: 'value', operator: 'regex', value: '(' })).toThrow(
+      '"(" is not a valid regular expression',
+    );
+    expect(() =>
+      createEventCondition({ type: 'crossing', path: 'value', direction: 'both', threshold: 'ON', hysteresis: 0 }),
+    ).toThrow('not a number');
+  });
+});
@@ -0,0 +1,247 @@
+import type { IDataObject } from 'n8n-workflow';
+import { parseNumericState, statesMatch } from './state';
+import { convertUnit } from './units';
+
+export type CompareOperator =
+  | 'equal'
+  | 'notEqual'
+  | 'greater'
+  | 'greaterOrEqual'
+  | 'less'
+  | 'lessOrEqual'
+  | 'contains'
+  | 'regex'
+  | 'exists';
+
+/**
+ * A condition on the payload of an event. `path` selects the value to test with a JSONPath subset
+ * (e.g. `$.value`, `$.statusInfo.status`, `$.members[0]`).
+ */
+export type EventConditionOptions =
+  | { type: 'compare'; path: string; operator: CompareOperator; value: string }
+  | { type: 'transition'; path: string; from: string[]; to: string[] }
+  | {
+      type: 'crossing';
+      path: string;
+      direction: 'rising' | 'falling' | 'both';
+      threshold: string;
+      /** Distance (in the unit of the threshold) the value has to move back before the next crossing counts */
+      hysteresis: number;
+    };
+
+/**
+ * Tests events against a condition, keeping the previous value per key (e.g. item) and event type for transitions
+ * and crossings.
+ */
+export interface EventCondition {
+  /**
+   * @param eventType Type of the event (e.g. `ItemStateChangedEvent`), so that e.g. a command is not taken as the
+   * previous state
+   * @returns Fields to add to the emitted event (e.g. `previousValue`), or null if the event does not match
+   */
+  evaluate(key: string, payload: unknown, eventType?: string): IDataObject | null;
+}
+
+const PATH_SEGMENT = /^(?:\.([^.[\]]+)|\[(\d+)\]|\[(['"])(.*?)\3\])/;
+
+/**
+ * Splits a JSONPath (`$.a.b[0]['c d']`, the leading `$` is optional) into property names and array indexes.
+ */
+export function parsePath(path: string): Array<string | number> {
+  let rest = path.trim().replace(/^\$/, '');
+  if (rest && !rest.startsWith('.') && !rest.startsWith('[')) {
+    rest = `.${rest}`;
+  }
+  const segments: Array<string | number> = [];
+  while (rest) {
+    const match = PATH_SEGMENT.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid path "${path}" at "${rest}"`);
+    }
+    segments.push(match[2] !== undefined ? Number(match[2]) : (match[1] ?? match[4]));
+    rest = rest.slice(match[0].length);
+  }
+  return segments;
+}
+
+function getPathValue(payload: unknown, segments: Array<string | number>): unknown {
+  let current = payload;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Returns the numeric value of a state, converted into the unit of the reference if both have a unit.
+ * @returns null if the state is not numeric or the units are incompatible
+ */
+function toNumber(state: string, referenceUnit: string | null): number | null {
+  const numeric = parseNumericState(state);
+  if (!numeric) {
+    return null;
+  }
+  if (numeric.unit && referenceUnit && numeric.unit !== referenceUnit) {
+    return convertUnit(numeric.value, numeric.unit, referenceUnit);
+  }
+  return numeric.value;
+}
+
+/**
+ * Compares an actual state with an expected one. Ordering operators compare numbers, converting the actual value
+ * into the unit of the expected one (so `70 °F` is greater than `20 °C`).
+ * @param pattern The expected value compiled for the `regex` operator, compiled on each call if omitted
+ */
+export function compareState(
+  actual: unknown,
+  operator: CompareOperator,
+  expected: string,
+  pattern?: RegExp,
+): boolean {
+  if (operator === 'exists') {
+    return actual !== undefined && actual !== null;
+  }
+  if (actual === undefined) {
+    return false;
+  }
+  const text = toText(actual);
+  switch (operator) {
+    case 'equal':
+      return statesMatch(expected, text);
+    case 'notEqual':
+      return !statesMatch(expected, text);
+    case 'contains':
+      return text.toLowerCase().includes(expected.toLowerCase());
+    case 'regex':
+      return (pattern ?? new RegExp(expected)).test(text);
+  }
+
+  const reference = parseNumericState(expected);
+  const value = reference ? toNumber(text, reference.unit) : null;
+  if (!reference || value === null) {
+    return false;
+  }
+  switch (operator) {
+    case 'greater':
+      return value > reference.value;
+    case 'greaterOrEqual':
+      return value >= reference.value;
+    case 'less':
+      return value < reference.value;
+    case 'lessOrEqual':
+      return value <= reference.value;
+  }
+}
+
+/**
+ * Creates a condition from the options, throwing if they are invalid. Each crossing is reported once: a rising
+ * crossing is armed when the value is below `threshold - hysteresis` and fires when it reaches the threshold, a
+ * falling one vice versa.
+ */
+export function createEventCondition(options: EventConditionOptions): EventCondition {
+  const segments = parsePath(options.path);
+  let pattern: RegExp | undefined;
+  if (options.type === 'compare' && options.operator === 'regex') {
+    try {
+      pattern = new RegExp(options.value);
+    } catch (error) {
+      throw new Error(`"${options.value}" is not a valid regular expression: ${(error as Error).message}`);
+    }
+  }
+  if (options.type === 'crossing' && !parseNumericState(options.threshold)) {
+    throw new Error(`Threshold "${options.threshold}" is not a number`);
+  }
+  // ItemStateChangedEvents carry the previous state, other events use the last one seen
+  const oldValueSegments = segments.length === 1 && segments[0] === 'value' ? ['oldValue'] : null;
+  const previousValues = new Map<string, string>();
+  const armed = new Map<string, { rising: boolean; falling: boolean }>();
+
+  const getPreviousValue = (key: string, payload: unknown): string | undefined => {
+    const oldValue = oldValueSegments ? getPathValue(payload, oldValueSegments) : undefined;
+    return oldValue !== undefined ? toText(oldValue) : previousValues.get(key);
+  };
+
+  const evaluateTransition = (
+    previous: string | undefined,
+    current: string,
+    from: string[],
+    to: string[],
+  ): IDataObject | null => {
+    if (previous === undefined || statesMatch(previous, current)) {
+      return null;
+    }
+    const matchesAny = (states: string[], state: string) =>
+      states.length === 0 || states.some((expected) => statesMatch(expected, state));
+    return matchesAny(from, previous) && matchesAny(to, current) ? { previousValue: previous } : null;
+  };
+
+  const evaluateCrossing = (
+    key: string,
+    previous: string | undefined,
+    current: string,
+    options: Extract<EventConditionOptions, { type: 'crossing' }>,
+  ): IDataObject | null => {
+    const reference = parseNumericState(options.threshold);
+    const value = reference ? toNumber(current, reference.unit) : null;
+    if (!reference || value === null) {
+      return null;
+    }
+    const { hysteresis } = options;
+    const updateArming = (state: { rising: boolean; falling: boolean }, number: number) => {
+      state.rising ||= number < reference.value - hysteresis;
+      state.falling ||= number > reference.value + hysteresis;
+    };
+
+    let state = armed.get(key);
+    if (!state) {
+      state = { rising: false, falling: false };
+      armed.set(key, state);
+      const previousNumber = previous !== undefined ? toNumber(previous, reference.unit) : null;
+      if (previousNumber !== null) {
+        updateArming(state, previousNumber);
+      }
+    }
+
+    let crossing: 'rising' | 'falling' | null = null;
+    if (state.rising && value >= reference.value) {
+      state.rising = false;
+      crossing = 'rising';
+    } else if (state.falling && value <= reference.value) {
+      state.falling = false;
+      crossing = 'falling';
+    }
+    updateArming(state, value);
+
+    if (!crossing || (options.direction !== 'both' && options.direction !== crossing)) {
+      return null;
+    }
+    return { crossing, previousValue: previous ?? null };
+  };
+
+  return {
+    evaluate(itemKey, payload, eventType) {
+      const actual = getPathValue(payload, segments);
+      if (options.type === 'compare') {
+        return compareState(actual, options.operator, options.value, pattern) ? {} : null;
+      }
+      if (actual === undefined || actual === null) {
+        return null;
+      }
+
+      const key = eventType ? `${itemKey}/${eventType}` : itemKey;
+      const current = toText(actual);
+      const previous = getPreviousValue(key, payload);
+      previousValues.set(key, current);
+      return options.type === 'transition'
+        ? evaluateTransition(previous, current, options.from, options.to)
+        : evaluateCrossing(key, previous, current, options);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { createEventFilter, getEventStreamTopics } from './eventFilters';
+
+describe('createEventFilter', () => {
+  it('should apply topic wildcards, regular expressions and exclusions', () => {
+    const matches = createEventFilter({
+      topicFilters: ['openhab/items/*/command', 'openhab/things/.*/status.+', '!openhab/items/Hidden_.*/command'],
+      typeFilters: [],
+      sourceFilters: [],
+    });
+    expect(matches({ topic: 'openhab/items/Light/command' })).toBe(true);
+    expect(matches({ topic: 'openhab/things/a:b:c/statuschanged' })).toBe(true);
+    expect(matches({ topic: 'openhab/items/Light/statechanged' })).toBe(false);
+    expect(matches({ topic: 'openhab/items/Hidden_Light/command' })).toBe(false);
+  });
+
+  it('should include types and exclude sources', () => {
+    const matches = createEventFilter({
+      topicFilters: [],
+      typeFilters: ['ItemCommandEvent'],
+      sourceFilters: ['io.n8n:wf:trigger'],
+    });
+    expect(matches({ type: 'ItemCommandEvent', topic: 'openhab/items/Light/command' })).toBe(true);
+    expect(matches({ type: 'ItemStateEvent', topic: 'openhab/items/Light/state' })).toBe(false);
+    expect(matches({ type: 'ItemCommandEvent', source: 'io.n8n:wf:trigger' })).toBe(false);
+  });
+});
+
+describe('getEventStreamTopics', () => {
+  it('should only pass wildcard filters to the server', () => {
+    expect(getEventStreamTopics(['openhab/items/*/command', '!openhab/items/Hidden/*'])).toBe('openhab/items/*/command');
+    expect(getEventStreamTopics(['openhab/items/(A|B)/command'])).toBeUndefined();
+    expect(getEventStreamTopics([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Filters of the trigger, as configured on the node.
+ */
+export interface EventFilters {
+  /** Topic filters with `*` wildcards or regular expressions, exclusions prefixed with `!` */
+  topicFilters: string[];
+  /** Event types to include, all if empty */
+  typeFilters: string[];
+  /** Event sources to exclude */
+  sourceFilters: string[];
+}
+
+/**
+ * An event as received from the openHAB event bus.
+ */
+export interface BusEvent {
+  type?: string;
+  topic?: string;
+  source?: string;
+}
+
+/** Characters that may appear in a topic filter the SSE endpoint understands, i.e. without regular expressions */
+const PLAIN_TOPIC_FILTER = /^[\w\-/:*]+$/;
+
+/**
+ * Converts a topic filter into a regular expression matching the whole topic. A `*` that is not part of `.*` is a
+ * wildcard, anything else is taken as a regular expression.
+ */
+function toTopicPattern(filter: string): RegExp {
+  return new RegExp(`^(?:${filter.replace(/(?<!\.)\*/g, '.*')})$`);
+}
+
+/**
+ * Creates a predicate applying the filters on the client, the way the openHAB event WebSocket applies them on the
+ * server. Used for transports that cannot filter on the server.
+ */
+export function createEventFilter(filters: EventFilters): (event: BusEvent) => boolean {
+  const includes = filters.topicFilters.filter((filter) => !filter.startsWith('!')).map(toTopicPattern);
+  const excludes = filters.topicFilters.filter((filter) => filter.startsWith('!')).map((filter) => toTopicPattern(filter.slice(1)));
+  const types = new Set(filters.typeFilters);
+  const sources = new Set(filters.sourceFilters);
+
+  return (event) => {
+    const topic = event.topic ?? '';
+    if (types.size > 0 && !types.has(event.type ?? '')) {
+      return false;
+    }
+    if (event.source && sources.has(event.source)) {
+      return false;
+    }
+    if (includes.length > 0 && !includes.some((pattern) => pattern.test(topic))) {
+      return false;
+    }
+    return !excludes.some((pattern) => pattern.test(topic));
+  };
+}
+
+/**
+ * Returns the value of the `topics` query parameter of GET /rest/events, which only supports `*` wildcards and no
+ * exclusions. Returns undefined to subscribe to all topics if the filters cannot be expressed, so that they are only
+ * applied on the client.
+ */
+export function getEventStreamTopics(topicFilters: string[]): string | undefined {
+  const includes = topicFilters.filter((filter) => !filter.startsWith('!'));
+  if (includes.length === 0 || !includes.every((filter) => PLAIN_TOPIC_FILTER.test(filter))) {
+    return undefined;
+  }
+  return includes.join(',');
+}
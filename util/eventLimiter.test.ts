@@ -0,0 +1,79 @@
+import { createEventLimiter, type EventLimiterOptions, getItemKey } from './eventLimiter';
+
+describe('createEventLimiter', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  const run = (options: Partial<EventLimiterOptions>, events: Array<[number, string, string]>) => {
+    const emitted: Array<[string, string, number]> = [];
+    const limiter = createEventLimiter<string>(
+      { mode: 'none', intervalMs: 1000, edge: 'leading', onlyWhenChanged: false, ...options },
+      (event, suppressed) => emitted.push([event, `${Date.now()}`, suppressed]),
+    );
+    jest.setSystemTime(0);
+    let now = 0;
+    for (const [at, key, value] of events) {
+      jest.advanceTimersByTime(at - now);
+      now = at;
+      limiter.push(key, `${key}=${value}`, value);
+    }
+    jest.advanceTimersByTime(5000);
+    limiter.dispose();
+    return emitted;
+  };
+
+  const events: Array<[number, string, string]> = [
+    [0, 'A', '1'],
+    [300, 'A', '2'],
+    [600, 'B', '1'],
+    [900, 'A', '3'],
+    [2500, 'A', '4'],
+  ];
+
+  it('should debounce per key', () => {
+    expect(run({ mode: 'debounce' }, events)).toEqual([
+      ['B=1', '1600', 0],
+      ['A=3', '1900', 2],
+      ['A=4', '3500', 0],
+    ]);
+  });
+
+  it('should throttle on the leading or trailing edge', () => {
+    expect(run({ mode: 'throttle' }, events)).toEqual([
+      ['A=1', '0', 0],
+      ['B=1', '600', 0],
+      ['A=4', '2500', 2],
+    ]);
+    expect(run({ mode: 'throttle', edge: 'trailing' }, events)).toEqual([
+      ['A=3', '1000', 2],
+      ['B=1', '1600', 0],
+      ['A=4', '3500', 0],
+    ]);
+  });
+
+  it('should only emit changed values', () => {
+    const repeated: Array<[number, string, string]> = [
+      [0, 'A', 'ON'],
+      [100, 'A', 'ON'],
+      [200, 'A', 'OFF'],
+      [300, 'A', 'ON'],
+      [400, 'A', 'ON'],
+    ];
+    expect(run({ onlyWhenChanged: true }, repeated)).toEqual([
+      ['A=ON', '0', 0],
+      ['A=OFF', '200', 1],
+      ['A=ON', '300', 0],
+    ]);
+    // The debounced value equals the last emitted one
+    expect(run({ mode: 'debounce', onlyWhenChanged: true }, [[0, 'A', 'ON'], [2000, 'A', 'OFF'], [2100, 'A', 'ON']])).toEqual([
+      ['A=ON', '1000', 0],
+    ]);
+  });
+});
+
+describe('getItemKey', () => {
+  it('should extract the item name from item topics', () => {
+    expect(getItemKey('openhab/items/Power/stateupdated')).toBe('Power');
+    expect(getItemKey('openhab/things/a:b:c/status')).toBe('openhab/things/a:b:c/status');
+  });
+});
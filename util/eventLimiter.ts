@@ -0,0 +1,136 @@
+/**
+ * Settings of how events are rate limited and deduplicated before they start an execution.
+ */
+export interface EventLimiterOptions {
+  mode: 'none' | 'debounce' | 'throttle';
+  intervalMs: number;
+  /** Whether a throttled window emits its first (leading) or last (trailing) event */
+  edge: 'leading' | 'trailing';
+  /** Whether to suppress events whose value equals the last emitted value of the same key */
+  onlyWhenChanged: boolean;
+}
+
+/**
+ * Passes events through per key (e.g. topic or item), dropping the ones suppressed by the options.
+ */
+export interface EventLimiter<T> {
+  /**
+   * @param value The value compared for `onlyWhenChanged`, undefined to never treat the event as a duplicate
+   */
+  push(key: string, event: T, value: string | undefined): void;
+  /** Cancels the timers; pending events are dropped */
+  dispose(): void;
+}
+
+interface KeyState<T> {
+  timer: NodeJS.Timeout | null;
+  pending: { event: T; value: string | undefined } | null;
+  /** Events dropped since the last emitted one */
+  suppressed: number;
+  hasEmitted: boolean;
+  lastValue: string | undefined;
+}
+
+/**
+ * Creates a limiter that debounces (emits the last event once there was none for the interval) or throttles (emits
+ * at most one event per interval) events per key.
+ * @param emit Called with each passing event and the number of events of its key suppressed before it
+ */
+export function createEventLimiter<T>(
+  options: EventLimiterOptions,
+  emit: (event: T, suppressed: number) => void,
+): EventLimiter<T> {
+  const states = new Map<string, KeyState<T>>();
+
+  const isDuplicate = (state: KeyState<T>, value: string | undefined) =>
+    options.onlyWhenChanged && value !== undefined && state.hasEmitted && state.lastValue === value;
+
+  const emitNow = (state: KeyState<T>, event: T, value: string | undefined) => {
+    if (isDuplicate(state, value)) {
+      state.suppressed++;
+      return;
+    }
+    const suppressed = state.suppressed;
+    state.suppressed = 0;
+    state.hasEmitted = true;
+    state.lastValue = value;
+    emit(event, suppressed);
+  };
+
+  const flush = (state: KeyState<T>) => {
+    state.timer = null;
+    const pending = state.pending;
+    state.pending = null;
+    if (pending) {
+      emitNow(state, pending.event, pending.value);
+    }
+  };
+
+  const push = (key: string, event: T, value: string | undefined) => {
+    let state = states.get(key);
+    if (!state) {
+      state = { timer: null, pending: null, suppressed: 0, hasEmitted: false, lastValue: undefined };
+      states.set(key, state);
+    }
+    const current = state;
+
+    // Duplicates neither restart the debounce timer nor use up a throttle window
+    if (!current.pending && isDuplicate(current, value)) {
+      current.suppressed++;
+      return;
+    }
+
+    if (options.mode === 'none' || options.intervalMs <= 0) {
+      emitNow(current, event, value);
+      return;
+    }
+
+    if (options.mode === 'debounce') {
+      if (current.timer) {
+        clearTimeout(current.timer);
+      }
+      if (current.pending) {
+        current.suppressed++;
+      }
+      current.pending = { event, value };
+      current.timer = setTimeout(() => flush(current), options.intervalMs);
+      return;
+    }
+
+    if (options.edge === 'leading') {
+      if (current.timer) {
+        current.suppressed++;
+        return;
+      }
+      emitNow(current, event, value);
+      current.timer = setTimeout(() => {
+        current.timer = null;
+      }, options.intervalMs);
+      return;
+    }
+
+    if (current.pending) {
+      current.suppressed++;
+    }
+    current.pending = { event, value };
+    current.timer ??= setTimeout(() => flush(current), options.intervalMs);
+  };
+
+  const dispose = () => {
+    for (const state of states.values()) {
+      if (state.timer) {
+        clearTimeout(state.timer);
+      }
+    }
+    states.clear();
+  };
+
+  return { push, dispose };
+}
+
+/**
+ * Returns the item name of an item event topic (`openhab/items/{name}/...`), or the topic itself for other events.
+ */
+export function getItemKey(topic: string): string {
+  return /^openhab\/items\/([^/]+)\//.exec(topic)?.[1] ?? topic;
+}
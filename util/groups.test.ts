@@ -0,0 +1,48 @@
+import { collectMembers, countMemberStates, getChangedMembers } from './groups';
+
+const group = {
+  name: 'gLights',
+  type: 'Group',
+  members: [
+    { name: 'Hall_Light', label: 'Hall', type: 'Switch', state: 'ON' },
+    {
+      name: 'gKitchenLights',
+      label: 'Kitchen Lights',
+      type: 'Group',
+      groupType: 'Switch',
+      state: 'OFF',
+      members: [
+        { name: 'Kitchen_Light', label: 'Kitchen', type: 'Switch', state: 'OFF' },
+        { name: 'Hall_Light', label: 'Hall', type: 'Switch', state: 'ON' },
+      ],
+    },
+  ],
+};
+
+describe('collectMembers', () => {
+  it('should list direct members including groups', () => {
+    expect(collectMembers(group, { recursive: false, includeGroups: true }).map((member) => member.name)).toEqual([
+      'Hall_Light',
+      'gKitchenLights',
+    ]);
+  });
+
+  it('should list nested members once with their direct group', () => {
+    expect(collectMembers(group, { recursive: true, includeGroups: false })).toEqual([
+      { name: 'Hall_Light', label: 'Hall', type: 'Switch', state: 'ON', group: 'gLights' },
+      { name: 'Kitchen_Light', label: 'Kitchen', type: 'Switch', state: 'OFF', group: 'gKitchenLights' },
+    ]);
+    expect(collectMembers(group, { recursive: true, includeGroups: true })[1].type).toBe('Group:Switch');
+  });
+});
+
+describe('getChangedMembers', () => {
+  it('should report members with a different state', () => {
+    const before = collectMembers(group, { recursive: true, includeGroups: false });
+    const after = before.map((member) => ({ ...member, state: 'ON' }));
+    expect(getChangedMembers(before, after)).toEqual([
+      { name: 'Kitchen_Light', label: 'Kitchen', previousState: 'OFF', state: 'ON' },
+    ]);
+    expect(countMemberStates(after)).toEqual({ ON: 2 });
+  });
+});
@@ -0,0 +1,80 @@
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * A member of a group, as returned by GET /rest/items/{groupName}?recursive=true.
+ */
+export interface GroupMember {
+  name: string;
+  label: string;
+  type: string;
+  state: string;
+  /** The group the item is a direct member of */
+  group: string;
+}
+
+/**
+ * Options for flattening group members.
+ */
+export interface CollectMembersOptions {
+  /** Whether to include members of nested groups */
+  recursive: boolean;
+  /** Whether to include the nested groups themselves */
+  includeGroups: boolean;
+}
+
+/**
+ * Flattens the members of a group, each item once, in the order they are listed.
+ */
+export function collectMembers(group: IDataObject, options: CollectMembersOptions): GroupMember[] {
+  const members = new Map<string, GroupMember>();
+  const visit = (parent: IDataObject) => {
+    for (const member of (parent.members as IDataObject[] | undefined) ?? []) {
+      const name = member.name as string;
+      const isGroup = member.type === 'Group';
+      if ((!isGroup || options.includeGroups) && !members.has(name)) {
+        members.set(name, {
+          name,
+          label: (member.label as string | undefined) ?? '',
+          type: isGroup && member.groupType ? `Group:${member.groupType as string}` : (member.type as string),
+          state: member.state as string,
+          group: parent.name as string,
+        });
+      }
+      if (isGroup && options.recursive) {
+        visit(member);
+      }
+    }
+  };
+  visit(group);
+  return [...members.values()];
+}
+
+/**
+ * Compares member states before and after a command.
+ * @returns The members whose state changed
+ */
+export function getChangedMembers(
+  before: GroupMember[],
+  after: GroupMember[],
+): Array<{ name: string; label: string; previousState: string; state: string }> {
+  const previous = new Map(before.map((member) => [member.name, member.state]));
+  return after
+    .filter((member) => previous.has(member.name) && previous.get(member.name) !== member.state)
+    .map((member) => ({
+      name: member.name,
+      label: member.label,
+      previousState: previous.get(member.name) as string,
+      state: member.state,
+    }));
+}
+
+/**
+ * Counts the members per state, e.g. `{ ON: 3, OFF: 1 }`.
+ */
+export function countMemberStates(members: GroupMember[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const member of members) {
+    counts[member.state] = (counts[member.state] ?? 0) + 1;
+  }
+  return counts;
+}
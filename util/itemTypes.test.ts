@@ -0,0 +1,26 @@
+import { parseGroupFunction, parseItemType } from './itemTypes';
+
+describe('parseItemType', () => {
+  it('should split the group type and aggregation function', () => {
+    expect(parseItemType('Group:Switch:OR(ON, OFF)')).toEqual({
+      type: 'Group',
+      groupType: 'Switch',
+      function: { name: 'OR', params: ['ON', 'OFF'] },
+    });
+    expect(parseItemType('Group:Number:Temperature:avg')).toEqual({
+      type: 'Group',
+      groupType: 'Number:Temperature',
+      function: { name: 'AVG' },
+    });
+    expect(parseItemType('Group')).toEqual({ type: 'Group' });
+    expect(parseItemType('Number:Power')).toEqual({ type: 'Number:Power' });
+  });
+});
+
+describe('parseGroupFunction', () => {
+  it('should parse known functions with parameters', () => {
+    expect(parseGroupFunction('or(ON,OFF)')).toEqual({ name: 'OR', params: ['ON', 'OFF'] });
+    expect(parseGroupFunction('LATEST')).toEqual({ name: 'LATEST' });
+    expect(parseGroupFunction('FIRST')).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * The aggregation function of a group item, as in the `function` field of the REST payload.
+ */
+export interface GroupFunction {
+  name: string;
+  params?: string[];
+}
+
+/**
+ * An item type split into the fields of the REST payload.
+ */
+export interface ItemTypeDefinition {
+  type: string;
+  groupType?: string;
+  function?: GroupFunction;
+}
+
+export const AGGREGATION_FUNCTIONS = [
+  'AND',
+  'OR',
+  'NAND',
+  'NOR',
+  'XOR',
+  'AVG',
+  'MEDIAN',
+  'MAX',
+  'MIN',
+  'SUM',
+  'COUNT',
+  'EARLIEST',
+  'LATEST',
+  'EQUALITY',
+];
+
+/**
+ * Parses an aggregation function with optional parameters, e.g. `OR(ON,OFF)` or `avg`.
+ * @returns null if it is not a known aggregation function
+ */
+export function parseGroupFunction(value: string): GroupFunction | null {
+  const match = /^(\w+)\s*(?:\(([^)]*)\))?$/.exec(value.trim());
+  const name = match?.[1].toUpperCase() ?? '';
+  if (!match || !AGGREGATION_FUNCTIONS.includes(name)) {
+    return null;
+  }
+  const params = match[2]
+    ?.split(',')
+    .map((param) => param.trim())
+    .filter((param) => param.length > 0);
+  return { name, ...(params?.length ? { params } : {}) };
+}
+
+/**
+ * Splits the type notation of `.items` files (e.g. `Group:Switch:OR(ON,OFF)`, `Group:Number:Temperature:AVG`) into
+ * the type, group type and aggregation function of the REST payload.
+ */
+export function parseItemType(value: string): ItemTypeDefinition {
+  const trimmed = value.trim();
+  const argumentsStart = trimmed.indexOf('(');
+  const head = argumentsStart === -1 ? trimmed : trimmed.slice(0, argumentsStart);
+  const parts = head.split(':').map((part) => part.trim());
+  if (parts[0] !== 'Group') {
+    return { type: trimmed };
+  }
+
+  const groupFunction =
+    parts.length > 2
+      ? parseGroupFunction(parts[parts.length - 1] + (argumentsStart === -1 ? '' : trimmed.slice(argumentsStart)))
+      : null;
+  const baseParts = groupFunction ? parts.slice(1, -1) : parts.slice(1);
+  return {
+    type: 'Group',
+    ...(baseParts.length > 0 ? { groupType: baseParts.join(':') } : {}),
+    ...(groupFunction ? { function: groupFunction } : {}),
+  };
+}
@@ -0,0 +1,114 @@
+import { parseItemsDsl, renderItemsDsl, toItemPayload } from './itemsDsl';
+
+describe('parseItemsDsl', () => {
+  it('should parse all parts of an item definition', () => {
+    const [item] = parseItemsDsl(`
+      // Living room
+      Number:Temperature LivingRoom_Temperature "Temperature [%.1f %unit%]" <temperature> (gLivingRoom, gTemperatures)
+        ["Measurement", "Temperature"]
+        { channel="mqtt:topic:broker:sensor:temperature" [profile="offset", offset="-0.5 °C"], expire="1h,state=UNDEF" }
+    `);
+    expect(item).toEqual({
+      name: 'LivingRoom_Temperature',
+      type: 'Number:Temperature',
+      label: 'Temperature',
+      category: 'temperature',
+      groupNames: ['gLivingRoom', 'gTemperatures'],
+      tags: ['Measurement', 'Temperature'],
+      metadata: {
+        stateDescription: { value: '', config: { pattern: '%.1f %unit%' } },
+        expire: { value: '1h,state=UNDEF', config: {} },
+      },
+      channels: [
+        {
+          channelUID: 'mqtt:topic:broker:sensor:temperature',
+          configuration: { profile: 'offset', offset: '-0.5 °C' },
+        },
+      ],
+    });
+  });
+
+  it('should parse group types and aggregation functions', () => {
+    const items = parseItemsDsl(`
+      Group gHome "Home" <house>
+      Group:Switch:OR(ON, OFF) gLights "Lights" (gHome)
+      Group:Number:Temperature:AVG gTemperatures
+      Switch Kitchen_Light (gLights) { alexa="PowerController.powerState" [category="LIGHT"], autoupdate="false" }
+    `);
+    expect(items.map(toItemPayload)).toEqual([
+      { name: 'gHome', type: 'Group', label: 'Home', category: 'house', groupNames: [], tags: [] },
+      {
+        name: 'gLights',
+        type: 'Group',
+        groupType: 'Switch',
+        function: { name: 'OR', params: ['ON', 'OFF'] },
+        label: 'Lights',
+        category: '',
+        groupNames: ['gHome'],
+        tags: [],
+      },
+      {
+        name: 'gTemperatures',
+        type: 'Group',
+        groupType: 'Number:Temperature',
+        function: { name: 'AVG' },
+        label: '',
+        category: '',
+        groupNames: [],
+        tags: [],
+      },
+      { name: 'Kitchen_Light', type: 'Switch', label: '', category: '', groupNames: ['gLights'], tags: [] },
+    ]);
+    expect(items[3].metadata).toEqual({
+      alexa: { value: 'PowerController.powerState', config: { category: 'LIGHT' } },
+      autoupdate: { value: 'false', config: {} },
+    });
+  });
+
+  it('should report syntax errors with the line number', () => {
+    expect(() => parseItemsDsl('Switch Light_1\nLamp Light_2')).toThrow('Unknown item type "Lamp" in line 2');
+    expect(() => parseItemsDsl('Switch Light_1 "Light')).toThrow('Unterminated string in line 1');
+    expect(() => parseItemsDsl('Switch Light_1 { channel= }')).toThrow('Expected a value but found "}" in line 1');
+  });
+});
+
+describe('renderItemsDsl', () => {
+  it('should render items with links and metadata that can be parsed again', () => {
+    const text = renderItemsDsl(
+      [
+        {
+          name: 'gLights',
+          type: 'Group',
+          groupType: 'Switch',
+          function: { name: 'OR', params: ['ON', 'OFF'] },
+          label: 'Lights',
+          groupNames: [],
+          tags: [],
+        },
+        {
+          name: 'Kitchen_Light',
+          type: 'Switch',
+          label: 'Kitchen "Main" Light',
+          category: 'lightbulb',
+          groupNames: ['gLights'],
+          tags: ['Lighting'],
+          metadata: {
+            semantics: { value: 'Point_Control_Switch' },
+            alexa: { value: 'Light', config: { brightness: 80, enabled: true } },
+          },
+        },
+      ],
+      [{ itemName: 'Kitchen_Light', channelUID: 'hue:0210:bridge:bulb1:color', configuration: {} }],
+    );
+    expect(text).toBe(
+      'Group:Switch:OR(ON, OFF) gLights "Lights"\n' +
+        'Switch Kitchen_Light "Kitchen \\"Main\\" Light" <lightbulb> (gLights) ["Lighting"] ' +
+        '{ channel="hue:0210:bridge:bulb1:color", alexa="Light" [brightness=80, enabled=true] }\n',
+    );
+    expect(parseItemsDsl(text)[1]).toMatchObject({
+      label: 'Kitchen "Main" Light',
+      metadata: { alexa: { value: 'Light', config: { brightness: 80, enabled: true } } },
+      channels: [{ channelUID: 'hue:0210:bridge:bulb1:color', configuration: {} }],
+    });
+  });
+});
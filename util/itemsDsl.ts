@@ -0,0 +1,202 @@
+import type { IDataObject } from 'n8n-workflow';
+import { DslReader, type DslValue, quoteDsl, renderDslConfiguration, tokenizeDsl } from './dslTokenizer';
+import { type GroupFunction, parseItemType } from './itemTypes';
+
+/**
+ * An item parsed from a `.items` file, split into the REST payloads for the item, its metadata and its links.
+ */
+export interface DslItem {
+  name: string;
+  type: string;
+  label: string;
+  category: string;
+  groupNames: string[];
+  tags: string[];
+  groupType?: string;
+  function?: GroupFunction;
+  metadata: Record<string, { value: string; config: IDataObject }>;
+  channels: Array<{ channelUID: string; configuration: IDataObject }>;
+}
+
+const ITEM_BASE_TYPES = [
+  'Call',
+  'Color',
+  'Contact',
+  'DateTime',
+  'Dimmer',
+  'Group',
+  'Image',
+  'Location',
+  'Number',
+  'Player',
+  'Rollershutter',
+  'String',
+  'Switch',
+];
+
+/** Metadata namespaces maintained by openHAB itself, which are not rendered */
+const GENERATED_NAMESPACES = ['semantics'];
+
+function parseType(reader: DslReader, item: DslItem, typeToken: { value: string; line: number }): void {
+  if (!ITEM_BASE_TYPES.includes(typeToken.value.split(':')[0])) {
+    throw new Error(`Unknown item type "${typeToken.value}" in line ${typeToken.line}`);
+  }
+  const { type, groupType, function: groupFunction } = parseItemType(typeToken.value);
+  item.type = type;
+  if (groupType) {
+    item.groupType = groupType;
+  }
+  if (groupFunction) {
+    item.function = groupFunction;
+    // Function parameters directly follow the type, e.g. Group:Switch:OR(ON, OFF)
+    if (reader.at('(') && !reader.peek()?.spaced) {
+      reader.next();
+      const params: string[] = [];
+      while (!reader.accept(')')) {
+        params.push(String(reader.value()));
+        reader.accept(',');
+      }
+      item.function.params = params;
+    }
+  }
+}
+
+/**
+ * Parses the item definitions of a `.items` file. A state pattern in the label (`"Temperature [%.1f °C]"`) is
+ * converted to `stateDescription` metadata, `channel` bindings to links and all other bindings to metadata.
+ * @throws Error with the line number of the first syntax error
+ */
+export function parseItemsDsl(text: string): DslItem[] {
+  const reader = new DslReader(tokenizeDsl(text));
+  const items: DslItem[] = [];
+
+  while (!reader.done) {
+    const typeToken = reader.expectKind('id', 'an item type');
+    const item: DslItem = {
+      name: '',
+      type: '',
+      label: '',
+      category: '',
+      groupNames: [],
+      tags: [],
+      metadata: {},
+      channels: [],
+    };
+    parseType(reader, item, typeToken);
+    item.name = reader.expectKind('id', 'an item name').value;
+
+    if (reader.peek()?.kind === 'string') {
+      const label = reader.next().value;
+      const pattern = /^(.*?)\s*\[(.*)\]\s*$/.exec(label);
+      if (pattern) {
+        item.label = pattern[1];
+        item.metadata.stateDescription = { value: '', config: { pattern: pattern[2] } };
+      } else {
+        item.label = label;
+      }
+    }
+    if (reader.accept('<')) {
+      const icon = reader.next();
+      item.category = icon.value;
+      reader.expect('>');
+    }
+    if (reader.accept('(')) {
+      while (!reader.accept(')')) {
+        item.groupNames.push(reader.expectKind('id', 'a group name').value);
+        reader.accept(',');
+      }
+    }
+    if (reader.accept('[')) {
+      while (!reader.accept(']')) {
+        item.tags.push(String(reader.value()));
+        reader.accept(',');
+      }
+    }
+    if (reader.accept('{')) {
+      while (!reader.accept('}')) {
+        const namespace = reader.expectKind('id', 'a binding or metadata namespace').value;
+        reader.expect('=');
+        const value = String(reader.value());
+        const config = reader.configuration() as IDataObject;
+        if (namespace === 'channel') {
+          item.channels.push({ channelUID: value, configuration: config });
+        } else {
+          const existing = item.metadata[namespace];
+          item.metadata[namespace] = { value, config: { ...(existing?.config ?? {}), ...config } };
+        }
+        reader.accept(',');
+      }
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Converts a parsed item to the payload of PUT /rest/items/{itemName}.
+ */
+export function toItemPayload(item: DslItem): IDataObject {
+  return {
+    name: item.name,
+    type: item.type,
+    label: item.label,
+    category: item.category,
+    groupNames: item.groupNames,
+    tags: item.tags,
+    ...(item.groupType ? { groupType: item.groupType } : {}),
+    ...(item.function ? { function: item.function } : {}),
+  };
+}
+
+function renderType(item: IDataObject): string {
+  if (item.type !== 'Group') {
+    return String(item.type);
+  }
+  const groupFunction = item.function as { name?: string; params?: unknown[] } | undefined;
+  return [
+    'Group',
+    item.groupType ? `:${String(item.groupType)}` : '',
+    groupFunction?.name && item.groupType ? `:${groupFunction.name}` : '',
+    groupFunction?.name && item.groupType && groupFunction.params?.length
+      ? `(${groupFunction.params.map((param) => (/^[A-Za-z0-9_]+$/.test(String(param)) ? param : quoteDsl(String(param)))).join(', ')})`
+      : '',
+  ].join('');
+}
+
+/**
+ * Renders items as returned by GET /rest/items?metadata=.* and their links from GET /rest/links as `.items` text.
+ */
+export function renderItemsDsl(items: IDataObject[], links: IDataObject[]): string {
+  const linksByItem = new Map<string, IDataObject[]>();
+  for (const link of links) {
+    const itemLinks = linksByItem.get(link.itemName as string) ?? [];
+    itemLinks.push(link);
+    linksByItem.set(link.itemName as string, itemLinks);
+  }
+
+  const lines = items.map((item) => {
+    const parts = [renderType(item), String(item.name)];
+    if (item.label) parts.push(quoteDsl(String(item.label)));
+    if (item.category) parts.push(`<${String(item.category)}>`);
+    const groupNames = (item.groupNames as string[] | undefined) ?? [];
+    if (groupNames.length > 0) parts.push(`(${groupNames.join(', ')})`);
+    const tags = (item.tags as string[] | undefined) ?? [];
+    if (tags.length > 0) parts.push(`[${tags.map(quoteDsl).join(', ')}]`);
+
+    const bindings = (linksByItem.get(item.name as string) ?? []).map((link) =>
+      [`channel=${quoteDsl(String(link.channelUID))}`, renderDslConfiguration(link.configuration as IDataObject)]
+        .filter(Boolean)
+        .join(' '),
+    );
+    for (const [namespace, entry] of Object.entries((item.metadata as IDataObject | undefined) ?? {})) {
+      if (GENERATED_NAMESPACES.includes(namespace)) continue;
+      const { value, config } = entry as { value?: DslValue; config?: IDataObject };
+      bindings.push(
+        [`${namespace}=${quoteDsl(String(value ?? ''))}`, renderDslConfiguration(config)].filter(Boolean).join(' '),
+      );
+    }
+    if (bindings.length > 0) parts.push(`{ ${bindings.join(', ')} }`);
+    return parts.join(' ');
+  });
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
@@ -1,6 +1,7 @@
 import {
   type ICredentialDataDecryptedObject,
   IExecuteFunctions,
+  type ILoadOptionsFunctions,
   type ITriggerFunctions,
   NodeOperationError
 } from 'n8n-workflow'
@@ -23,17 +24,27 @@ function slugify(input: string): string {
     .replace(/^_|_$/g, '');
 }
 
+/**
+ * Splits a comma-separated parameter value into a list of trimmed, non-empty entries.
+ */
+export function parseCommaSeparatedList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
 /**
  * Generates an event source name based on the workflow and node names.
  */
-export function getEventSource(this: ITriggerFunctions | IExecuteFunctions) {
+export function getEventSource(this: ITriggerFunctions | IExecuteFunctions | ILoadOptionsFunctions) {
   return `io.n8n:${slugify(this.getWorkflow().name ?? this.getWorkflow().id!)}:${slugify(this.getNode().name)}`;
 }
 
 /**
  * Builds the base URL, validates credentials, blocks allowUnauthorizedCerts for cloud, and returns API configuration.
  */
-export async function setupOpenHABApi(this: ITriggerFunctions | IExecuteFunctions) {
+export async function setupOpenHABApi(this: ITriggerFunctions | IExecuteFunctions | ILoadOptionsFunctions) {
   const credentials = (await this.getCredentials('openHABApi')) as ICredentialDataDecryptedObject;
 
   const rawAuthType = ((credentials.authType as string | undefined) ?? 'token').toLowerCase();
@@ -91,3 +102,131 @@ export async function setupOpenHABApi(this: ITriggerFunctions | IExecuteFunction
 
   return { useCloud, baseUrl, skipSslCertificateValidation, source };
 }
+
+/**
+ * Builds the authentication headers for the event endpoints, which are not requested through
+ * `httpRequestWithAuthentication`.
+ */
+function buildEventHeaders(
+  credentials: ICredentialDataDecryptedObject,
+  useCloud: boolean,
+): { accessToken: string; headers: Record<string, string> } {
+  const headers: Record<string, string> = {};
+
+  if (useCloud) {
+    const cloudToken = ((credentials.cloudToken as string | undefined) ?? '').trim();
+    const username = credentials.username as string;
+    const password = credentials.password as string;
+
+    headers['Authorization'] = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+    if (cloudToken) {
+      headers['X-OPENHAB-TOKEN'] = cloudToken;
+    }
+    return { accessToken: cloudToken, headers };
+  }
+
+  const token = (credentials.token as string).trim();
+  headers['Authorization'] = `Bearer ${token}`;
+  headers['X-OPENHAB-TOKEN'] = token;
+  return { accessToken: token, headers };
+}
+
+/**
+ * Connection settings for the openHAB event WebSocket (/ws/events).
+ */
+export interface EventWebSocketConfig {
+  url: string;
+  protocols: string[];
+  allowInsecure: boolean;
+  headers: Record<string, string>;
+  clientId: string;
+}
+
+/**
+ * Builds the event WebSocket URL, authentication headers and subprotocols from the credentials.
+ */
+export async function buildEventWebSocketConfig(
+  this: ITriggerFunctions | IExecuteFunctions,
+): Promise<EventWebSocketConfig> {
+  const credentials = (await this.getCredentials(
+    'openHABApi',
+  )) as ICredentialDataDecryptedObject;
+
+  const { useCloud, baseUrl, skipSslCertificateValidation, source } = await setupOpenHABApi.call(this);
+
+  // additional validation as Event WebSocket API requires token
+  if (useCloud && !((credentials.cloudToken as string | undefined) ?? '').trim()) {
+    throw new NodeOperationError(this.getNode(), 'API token is required.');
+  }
+  const { accessToken, headers: extraHeaders } = buildEventHeaders(credentials, useCloud);
+
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(baseUrl);
+  } catch (error) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Invalid Base URL "${baseUrl}": ${(error as Error).message}`,
+    );
+  }
+
+  parsedUrl.protocol = parsedUrl.protocol === 'https:' ? 'wss:' : 'ws:';
+  parsedUrl.pathname = '/ws/events';
+  parsedUrl.search = '';
+
+  const encodedAccessToken = accessToken ? Buffer.from(accessToken).toString('base64').replace(/=*$/, '') : null
+  const subProtocols = encodedAccessToken ? [`org.openhab.ws.accessToken.base64.${encodedAccessToken}`, 'org.openhab.ws.protocol.default'] : [];
+
+  return {
+    url: parsedUrl.toString(),
+    protocols: subProtocols,
+    allowInsecure: skipSslCertificateValidation,
+    headers: extraHeaders,
+    clientId: source,
+  };
+}
+
+/**
+ * Connection settings for the openHAB Server-Sent Events stream (/rest/events).
+ */
+export interface EventStreamConfig {
+  url: string;
+  allowInsecure: boolean;
+  headers: Record<string, string>;
+  clientId: string;
+}
+
+/**
+ * Builds the event stream URL and authentication headers from the credentials. Unlike the event WebSocket, the
+ * stream is also available on openHAB 3 and does not require an API token in myopenHAB cloud mode.
+ * @param topics Value of the `topics` query parameter, all topics if undefined
+ */
+export async function buildEventStreamConfig(
+  this: ITriggerFunctions | IExecuteFunctions,
+  topics?: string,
+): Promise<EventStreamConfig> {
+  const credentials = (await this.getCredentials('openHABApi')) as ICredentialDataDecryptedObject;
+
+  const { useCloud, baseUrl, skipSslCertificateValidation, source } = await setupOpenHABApi.call(this);
+  const { headers } = buildEventHeaders(credentials, useCloud);
+
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(`${baseUrl}/rest/events`);
+  } catch (error) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Invalid Base URL "${baseUrl}": ${(error as Error).message}`,
+    );
+  }
+  if (topics) {
+    parsedUrl.searchParams.set('topics', topics);
+  }
+
+  return {
+    url: parsedUrl.toString(),
+    allowInsecure: skipSslCertificateValidation,
+    headers,
+    clientId: source,
+  };
+}
@@ -0,0 +1,126 @@
+import { computeStatistics, formatDataPoint, getDataPoints, toIsoDateTime } from './persistence';
+
+describe('toIsoDateTime', () => {
+  it('should convert strings and dates to ISO timestamps', () => {
+    expect(toIsoDateTime('2026-01-01T10:00:00.000Z')).toBe('2026-01-01T10:00:00.000Z');
+    expect(toIsoDateTime(new Date(0))).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('should use toISO() of Luxon-like objects', () => {
+    expect(toIsoDateTime({ toISO: () => '2026-01-01T11:00:00.000+01:00' })).toBe(
+      '2026-01-01T11:00:00.000+01:00',
+    );
+  });
+
+  it('should return undefined for empty values', () => {
+    expect(toIsoDateTime('')).toBeUndefined();
+    expect(toIsoDateTime(undefined)).toBeUndefined();
+  });
+
+  it('should throw for invalid dates', () => {
+    expect(() => toIsoDateTime('not a date')).toThrow('"not a date" is not a valid date');
+    expect(() => toIsoDateTime({ toISO: () => null })).toThrow('is not a valid date');
+  });
+});
+
+describe('getDataPoints / formatDataPoint', () => {
+  it('should parse values and units of data points', () => {
+    const points = getDataPoints({
+      name: 'Temperature',
+      datapoints: '2',
+      data: [
+        { time: 0, state: '21.5 °C' },
+        { time: 1000, state: 'UNDEF' },
+      ],
+    });
+    expect(points.map((point) => formatDataPoint('Temperature', point))).toEqual([
+      { item: 'Temperature', time: 0, timestamp: '1970-01-01T00:00:00.000Z', state: '21.5 °C', value: 21.5, unit: '°C' },
+      { item: 'Temperature', time: 1000, timestamp: '1970-01-01T00:00:01.000Z', state: 'UNDEF', value: null, unit: null },
+    ]);
+  });
+
+  it('should return no data points for an empty response', () => {
+    expect(getDataPoints({ name: 'Temperature' })).toEqual([]);
+  });
+});
+
+describe('computeStatistics', () => {
+  it('should compute aggregates within the window', () => {
+    const stats = computeStatistics(
+      [
+        { time: 0, state: '10 W' },
+        { time: 100, state: '20 W' },
+        { time: 150, state: '40 W' },
+        { time: 300, state: '99 W' },
+      ],
+      100,
+      200,
+    );
+    expect(stats).toMatchObject({
+      count: 2,
+      unit: 'W',
+      average: 30,
+      min: 20,
+      max: 40,
+      sum: 60,
+      delta: 30,
+      timeWeightedAverage: 30,
+      changed: true,
+      skipped: 0,
+    });
+    expect(stats.minTime).toBe(new Date(100).toISOString());
+    expect(stats.maxTime).toBe(new Date(150).toISOString());
+  });
+
+  it('should hold the boundary state for the time-weighted average', () => {
+    const stats = computeStatistics(
+      [
+        { time: 0, state: '10' },
+        { time: 150, state: '20' },
+      ],
+      100,
+      200,
+    );
+    expect(stats.count).toBe(1);
+    expect(stats.timeWeightedAverage).toBe(15);
+    expect(stats.delta).toBe(10);
+  });
+
+  it('should convert units to the unit of the most recent point', () => {
+    const stats = computeStatistics(
+      [
+        { time: 0, state: '1.5 kW' },
+        { time: 10, state: '500 W' },
+        { time: 20, state: '5 °C' },
+      ],
+      0,
+      30,
+    );
+    expect(stats.unit).toBe('°C');
+    expect(stats.skipped).toBe(2);
+
+    const power = computeStatistics(
+      [
+        { time: 0, state: '1.5 kW' },
+        { time: 10, state: '500 W' },
+      ],
+      0,
+      30,
+    );
+    expect(power.unit).toBe('W');
+    expect(power.max).toBeCloseTo(1500);
+    expect(power.sum).toBeCloseTo(2000);
+  });
+
+  it('should report unchanged non-numeric states', () => {
+    const stats = computeStatistics(
+      [
+        { time: 0, state: 'ON' },
+        { time: 150, state: 'ON' },
+      ],
+      100,
+      200,
+    );
+    expect(stats).toMatchObject({ count: 1, average: null, changed: false, timeWeightedAverage: null });
+  });
+});
@@ -0,0 +1,166 @@
+import type { IDataObject } from 'n8n-workflow';
+import { parseNumericState } from './state';
+import { convertUnit } from './units';
+
+/**
+ * A single entry of the `data` array returned by GET /rest/persistence/items/{itemName}.
+ */
+export interface PersistenceDataPoint {
+  time: number;
+  state: string;
+}
+
+/**
+ * Converts a date parameter (ISO string, JS Date or Luxon DateTime from an n8n expression) into an ISO timestamp.
+ * @returns The ISO timestamp, or undefined if the value is empty
+ * @throws Error if the value is not a valid date
+ */
+export function toIsoDateTime(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'object' && typeof (value as { toISO?: unknown }).toISO === 'function') {
+    const iso = (value as { toISO: () => string | null }).toISO();
+    if (!iso) {
+      throw new Error(`"${String(value)}" is not a valid date`);
+    }
+    return iso;
+  }
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`"${String(value)}" is not a valid date`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Extracts the data points from a persistence response, skipping malformed entries.
+ */
+export function getDataPoints(response: IDataObject): PersistenceDataPoint[] {
+  const data = Array.isArray(response.data) ? (response.data as IDataObject[]) : [];
+  return data
+    .filter((entry) => entry && entry.time !== undefined && entry.state !== undefined)
+    .map((entry) => ({ time: Number(entry.time), state: String(entry.state) }));
+}
+
+/**
+ * Converts a data point into an n8n output object with the parsed numeric value and unit.
+ */
+export function formatDataPoint(itemName: string, point: PersistenceDataPoint): IDataObject {
+  const numeric = parseNumericState(point.state);
+  return {
+    item: itemName,
+    time: point.time,
+    timestamp: new Date(point.time).toISOString(),
+    state: point.state,
+    value: numeric ? numeric.value : null,
+    unit: numeric ? numeric.unit : null,
+  };
+}
+
+/**
+ * Aggregates over a time window, computed from persistence data points.
+ */
+export interface PersistenceStatistics extends IDataObject {
+  count: number;
+  unit: string | null;
+  average: number | null;
+  min: number | null;
+  minTime: string | null;
+  max: number | null;
+  maxTime: string | null;
+  sum: number | null;
+  delta: number | null;
+  timeWeightedAverage: number | null;
+  changed: boolean;
+  skipped: number;
+}
+
+interface NumericPoint {
+  time: number;
+  value: number;
+}
+
+/**
+ * Computes aggregates for the window [start, end].
+ *
+ * The points should be fetched with `boundary=true`, so that the last point before the window provides the state at
+ * its start. That state is the reference for `delta` and `changed` and is held until the first change for the
+ * time-weighted average. Numeric values are converted to the unit of the most recent point; points whose unit cannot
+ * be converted are left out of the numeric aggregates and counted as `skipped`.
+ */
+export function computeStatistics(
+  points: PersistenceDataPoint[],
+  start: number,
+  end: number,
+): PersistenceStatistics {
+  const sorted = [...points].filter((point) => point.time <= end).sort((a, b) => a.time - b.time);
+  const before = sorted.filter((point) => point.time < start).pop();
+  const inside = sorted.filter((point) => point.time >= start);
+
+  const referenceUnit =
+    [...(before ? [before] : []), ...inside]
+      .map((point) => parseNumericState(point.state))
+      .reverse()
+      .find((numeric) => numeric !== null)?.unit ?? null;
+
+  let skipped = 0;
+  const toNumericPoint = (point: PersistenceDataPoint): NumericPoint | null => {
+    const numeric = parseNumericState(point.state);
+    if (!numeric) {
+      return null;
+    }
+    if (numeric.unit === referenceUnit || numeric.unit === null || referenceUnit === null) {
+      return { time: point.time, value: numeric.value };
+    }
+    const converted = convertUnit(numeric.value, numeric.unit, referenceUnit);
+    if (converted === null) {
+      skipped++;
+      return null;
+    }
+    return { time: point.time, value: converted };
+  };
+
+  const startPoint = before ? toNumericPoint(before) : null;
+  const values = inside.map(toNumericPoint).filter((point): point is NumericPoint => point !== null);
+
+  let min: NumericPoint | null = null;
+  let max: NumericPoint | null = null;
+  let sum = 0;
+  for (const point of values) {
+    if (!min || point.value < min.value) min = point;
+    if (!max || point.value > max.value) max = point;
+    sum += point.value;
+  }
+
+  const series = startPoint ? [startPoint, ...values] : values;
+  let area = 0;
+  let duration = 0;
+  series.forEach((point, index) => {
+    const segmentStart = Math.max(point.time, start);
+    const segmentEnd = Math.min(index + 1 < series.length ? series[index + 1].time : end, end);
+    if (segmentEnd > segmentStart) {
+      area += point.value * (segmentEnd - segmentStart);
+      duration += segmentEnd - segmentStart;
+    }
+  });
+
+  const first = startPoint ?? values[0];
+  const last = values[values.length - 1];
+  const referenceState = before?.state ?? inside[0]?.state;
+
+  return {
+    count: inside.length,
+    unit: referenceUnit,
+    average: values.length > 0 ? sum / values.length : null,
+    min: min ? min.value : null,
+    minTime: min ? new Date(min.time).toISOString() : null,
+    max: max ? max.value : null,
+    maxTime: max ? new Date(max.time).toISOString() : null,
+    sum: values.length > 0 ? sum : null,
+    delta: first && last ? last.value - first.value : null,
+    timeWeightedAverage: duration > 0 ? area / duration : null,
+    changed: inside.some((point) => point.state !== referenceState),
+    skipped,
+  };
+}
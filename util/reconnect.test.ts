@@ -0,0 +1,119 @@
+import { createReconnector, getBackoffDelay, type ReconnectOptions } from './reconnect';
+
+describe('getBackoffDelay', () => {
+  const options = { initialDelayMs: 1000, maxDelayMs: 30000 };
+
+  it('should grow exponentially up to the maximum', () => {
+    const noJitter = () => 0;
+    expect([0, 1, 2, 3, 4, 5, 10].map((attempt) => getBackoffDelay(attempt, options, noJitter))).toEqual([
+      1000, 2000, 4000, 8000, 16000, 30000, 30000,
+    ]);
+    expect(getBackoffDelay(2, { ...options, multiplier: 3 }, noJitter)).toBe(9000);
+  });
+
+  it('should subtract up to the jitter share at random', () => {
+    expect(getBackoffDelay(3, options, () => 0.5)).toBe(6000);
+    expect(getBackoffDelay(3, { ...options, jitter: 1 }, () => 0.999)).toBe(8);
+    expect(getBackoffDelay(3, { ...options, jitter: 0 }, () => 0.999)).toBe(8000);
+  });
+});
+
+describe('createReconnector', () => {
+  const options: ReconnectOptions<'websocket' | 'sse'> = {
+    transports: ['websocket', 'sse'],
+    autoReconnect: true,
+    maxAttempts: 0,
+    backoff: { initialDelayMs: 1000, maxDelayMs: 30000 },
+    random: () => 0,
+  };
+
+  const setup = (overrides: Partial<ReconnectOptions<'websocket' | 'sse'>> = {}) => {
+    const handlers = {
+      connect: jest.fn(),
+      onRetry: jest.fn(),
+      onReconnected: jest.fn(),
+      onGiveUp: jest.fn(),
+    };
+    const reconnector = createReconnector({ ...options, ...overrides }, handlers);
+    return { reconnector, handlers };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should fall back to the next transport after N failures, with backoff before every attempt', () => {
+    const { reconnector, handlers } = setup({ fallbackAfterAttempts: 2 });
+    reconnector.start();
+    expect(handlers.connect).toHaveBeenLastCalledWith('websocket');
+
+    reconnector.handleDisconnect('refused');
+    jest.advanceTimersByTime(999);
+    expect(handlers.connect).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    expect(handlers.connect).toHaveBeenLastCalledWith('websocket');
+
+    reconnector.handleDisconnect('refused');
+    expect(handlers.onRetry).toHaveBeenLastCalledWith(2, 2000, 'refused');
+    jest.advanceTimersByTime(2000);
+    expect(handlers.connect).toHaveBeenLastCalledWith('sse');
+    expect(reconnector.transport).toBe('sse');
+
+    // The transport of the first successful connection is kept
+    reconnector.handleOpen();
+    expect(handlers.onReconnected).toHaveBeenCalledWith(2, 'sse');
+    for (let attempt = 0; attempt < 3; attempt++) {
+      reconnector.handleDisconnect('lost');
+      jest.runOnlyPendingTimers();
+    }
+    expect(handlers.connect).toHaveBeenLastCalledWith('sse');
+  });
+
+  it('should start the backoff over after a successful connection', () => {
+    const { reconnector, handlers } = setup({ transports: ['websocket'] });
+    reconnector.start();
+    reconnector.handleDisconnect('lost');
+    jest.runOnlyPendingTimers();
+    reconnector.handleDisconnect('lost');
+    jest.runOnlyPendingTimers();
+    expect(handlers.onRetry.mock.calls.map((call) => call[1])).toEqual([1000, 2000]);
+
+    reconnector.handleOpen();
+    expect(reconnector.disconnectedSince).toBeNull();
+    reconnector.handleDisconnect('lost');
+    expect(handlers.onRetry).toHaveBeenLastCalledWith(1, 1000, 'lost');
+  });
+
+  it('should not connect again when closed during a pending attempt', () => {
+    const { reconnector, handlers } = setup();
+    reconnector.start();
+    reconnector.handleDisconnect('lost');
+    reconnector.close();
+    jest.runAllTimers();
+    reconnector.handleDisconnect('lost');
+    expect(handlers.connect).toHaveBeenCalledTimes(1);
+    expect(handlers.onGiveUp).not.toHaveBeenCalled();
+  });
+
+  it('should give up after the maximum attempts, or without auto reconnect once the fallbacks are tried', () => {
+    const limited = setup({ transports: ['websocket'], maxAttempts: 2 });
+    limited.reconnector.start();
+    for (let attempt = 0; attempt < 3; attempt++) {
+      limited.reconnector.handleDisconnect('lost');
+      jest.runOnlyPendingTimers();
+    }
+    expect(limited.handlers.onGiveUp).toHaveBeenCalledWith('lost', 2);
+
+    const manual = setup({ autoReconnect: false });
+    manual.reconnector.start();
+    manual.reconnector.handleDisconnect('refused');
+    jest.runOnlyPendingTimers();
+    expect(manual.handlers.connect).toHaveBeenLastCalledWith('sse');
+    manual.reconnector.handleDisconnect('refused');
+    expect(manual.handlers.onGiveUp).toHaveBeenCalledWith('refused', 1);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Settings of the exponential backoff between reconnection attempts.
+ */
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  /** Factor the delay grows by per attempt, 2 by default */
+  multiplier?: number;
+  /** Share of the delay that is randomized (0-1), 0.5 by default */
+  jitter?: number;
+}
+
+/**
+ * Returns the delay before the given reconnection attempt (0 for the first one). The delay doubles per attempt up
+ * to the maximum, and up to `jitter` of it is subtracted at random so that many clients do not reconnect at once
+ * after a server restart.
+ * @param random Source of random numbers in [0, 1), for tests
+ */
+export function getBackoffDelay(attempt: number, options: BackoffOptions, random: () => number = Math.random): number {
+  const multiplier = options.multiplier ?? 2;
+  const jitter = Math.min(1, Math.max(0, options.jitter ?? 0.5));
+  const delay = Math.min(options.maxDelayMs, options.initialDelayMs * Math.pow(multiplier, Math.max(0, attempt)));
+  return Math.round(delay * (1 - jitter * random()));
+}
+
+/**
+ * Settings of a connection that is re-established after failures.
+ */
+export interface ReconnectOptions<T extends string> {
+  /**
+   * Transports to connect with, the first one first. Until a connection succeeds, the next transport is tried after
+   * `fallbackAfterAttempts` failures in a row; afterwards the transport of the successful connection is kept.
+   */
+  transports: T[];
+  /** Failures in a row before falling back to the next transport, 1 by default */
+  fallbackAfterAttempts?: number;
+  /** Whether to reconnect after failures; otherwise only the fallback transports are tried once */
+  autoReconnect: boolean;
+  /** Failed attempts in a row after which to give up, 0 to retry forever */
+  maxAttempts: number;
+  backoff: BackoffOptions;
+  /** Source of random numbers in [0, 1) for the backoff jitter, for tests */
+  random?: () => number;
+}
+
+/**
+ * Callbacks of a reconnector.
+ */
+export interface ReconnectHandlers<T extends string> {
+  /** Opens a connection with the transport; its outcome is reported with `handleOpen` or `handleDisconnect` */
+  connect(transport: T): void;
+  /** Called when a connection attempt is scheduled after a failure */
+  onRetry(attempt: number, delayMs: number, reason: string): void;
+  /** Called when a connection opens after failures */
+  onReconnected(attempts: number, transport: T): void;
+  /** Called when no further attempt is made */
+  onGiveUp(reason: string, attempts: number): void;
+}
+
+/**
+ * Decides when and with which transport to connect again after a connection failed or was lost.
+ */
+export interface Reconnector<T extends string> {
+  /** The transport of the current or next connection */
+  readonly transport: T;
+  /** When the connection was lost, or null while connected */
+  readonly disconnectedSince: number | null;
+  /** Opens the first connection */
+  start(): void;
+  /** Reports that the current connection opened */
+  handleOpen(): void;
+  /** Reports that the current connection failed or was closed */
+  handleDisconnect(reason: string): void;
+  /** Cancels a pending attempt; later reports are ignored */
+  close(): void;
+}
+
+/**
+ * Creates a reconnector that waits with exponential backoff before every attempt after a failure, including the
+ * attempts with a fallback transport. The backoff starts over once a connection succeeds.
+ */
+export function createReconnector<T extends string>(
+  options: ReconnectOptions<T>,
+  handlers: ReconnectHandlers<T>,
+): Reconnector<T> {
+  const fallbackAfterAttempts = Math.max(1, options.fallbackAfterAttempts ?? 1);
+  let transportIndex = 0;
+  let transportFailures = 0;
+  let hasConnected = false;
+  let isClosed = false;
+  let failedAttempts = 0;
+  let disconnectedSince: number | null = null;
+  let timer: NodeJS.Timeout | null = null;
+
+  const hasFallback = () => !hasConnected && transportIndex + 1 < options.transports.length;
+
+  const scheduleAttempt = (reason: string) => {
+    disconnectedSince ??= Date.now();
+    const delayMs = getBackoffDelay(failedAttempts, options.backoff, options.random);
+    failedAttempts++;
+    handlers.onRetry(failedAttempts, delayMs, reason);
+    timer = setTimeout(() => {
+      timer = null;
+      handlers.connect(options.transports[transportIndex]);
+    }, delayMs);
+  };
+
+  return {
+    get transport() {
+      return options.transports[transportIndex];
+    },
+    get disconnectedSince() {
+      return disconnectedSince;
+    },
+    start() {
+      handlers.connect(options.transports[transportIndex]);
+    },
+    handleOpen() {
+      if (isClosed) {
+        return;
+      }
+      hasConnected = true;
+      if (disconnectedSince !== null) {
+        handlers.onReconnected(failedAttempts, options.transports[transportIndex]);
+        disconnectedSince = null;
+      }
+      failedAttempts = 0;
+    },
+    handleDisconnect(reason) {
+      // A pending attempt means the failure was already reported
+      if (isClosed || timer) {
+        return;
+      }
+
+      if (!options.autoReconnect) {
+        if (hasFallback()) {
+          transportIndex++;
+          scheduleAttempt(reason);
+        } else {
+          handlers.onGiveUp(reason, failedAttempts);
+        }
+        return;
+      }
+
+      if (options.maxAttempts > 0 && failedAttempts >= options.maxAttempts) {
+        handlers.onGiveUp(reason, failedAttempts);
+        return;
+      }
+      if (!hasConnected && options.transports.length > 1 && ++transportFailures >= fallbackAfterAttempts) {
+        // Until a connection succeeds, the transports are tried in turn
+        transportIndex = (transportIndex + 1) % options.transports.length;
+        transportFailures = 0;
+      }
+      scheduleAttempt(reason);
+    },
+    close() {
+      isClosed = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
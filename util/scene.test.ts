@@ -0,0 +1,74 @@
+import { createScene, parseScene, planRestore } from './scene';
+
+describe('createScene', () => {
+  it('should keep name, type and state of the items', () => {
+    const scene = createScene(
+      [
+        { name: 'Hall_Light', type: 'Dimmer', state: '40' },
+        { name: 'Hall_Color', type: 'Color', state: '30,50,40' },
+      ],
+      'before-doorbell',
+    );
+    expect(scene.name).toBe('before-doorbell');
+    expect(Number.isNaN(Date.parse(scene.createdAt))).toBe(false);
+    expect(scene.items).toEqual([
+      { name: 'Hall_Light', type: 'Dimmer', state: '40' },
+      { name: 'Hall_Color', type: 'Color', state: '30,50,40' },
+    ]);
+  });
+});
+
+describe('parseScene', () => {
+  it('should accept scenes and convert states to strings', () => {
+    expect(parseScene({ createdAt: '2026-01-01T00:00:00.000Z', items: [{ name: 'Setpoint', state: 21 }] })).toEqual({
+      createdAt: '2026-01-01T00:00:00.000Z',
+      items: [{ name: 'Setpoint', state: '21' }],
+    });
+  });
+
+  it('should reject invalid scenes', () => {
+    expect(() => parseScene([])).toThrow('expected an object with an "items" array');
+    expect(() => parseScene({ items: [{ name: 'Setpoint' }] })).toThrow('item 0 needs a name and a state');
+  });
+});
+
+describe('planRestore', () => {
+  const scene = createScene([
+    { name: 'Hall_Light', type: 'Dimmer', state: '40' },
+    { name: 'Hall_Temperature', type: 'Number:Temperature', state: '20 °C' },
+    { name: 'Hall_Scene', type: 'String', state: 'NULL' },
+    { name: 'gHall', type: 'Group', state: 'ON' },
+    { name: 'Removed_Item', type: 'Switch', state: 'ON' },
+    { name: 'Hall_Window', type: 'Contact', state: 'CLOSED' },
+  ]);
+  const currentStates = new Map([
+    ['Hall_Light', '100'],
+    ['Hall_Temperature', '68 °F'],
+    ['Hall_Scene', 'doorbell'],
+    ['gHall', 'OFF'],
+    ['Hall_Window', 'OPEN'],
+  ]);
+
+  it('should restore changed items and skip what cannot be commanded', () => {
+    expect(planRestore(scene, currentStates, 'command').map((step) => [step.item, step.action])).toEqual([
+      ['Hall_Light', 'restore'],
+      ['Hall_Temperature', 'unchanged'],
+      ['Hall_Scene', 'skipped'],
+      ['gHall', 'skipped'],
+      ['Removed_Item', 'skipped'],
+      ['Hall_Window', 'restore'],
+    ]);
+  });
+
+  it('should restore items that do not accept commands with a state update', () => {
+    const steps = planRestore(scene, currentStates, 'command');
+    expect(steps[0].mode).toBe('command');
+    expect(steps[5].mode).toBe('state');
+  });
+
+  it('should allow NULL states and groups for state updates', () => {
+    const steps = planRestore(scene, currentStates, 'state');
+    expect(steps[2]).toEqual({ item: 'Hall_Scene', state: 'NULL', currentState: 'doorbell', action: 'restore', mode: 'state' });
+    expect(steps[3].action).toBe('restore');
+  });
+});
@@ -0,0 +1,108 @@
+import { statesMatch } from './state';
+
+// Scenes and restore steps are type aliases rather than interfaces, so that they can be output as IDataObject
+
+/**
+ * The state of one item in a scene.
+ */
+export type SceneItem = {
+  name: string;
+  type?: string;
+  state: string;
+};
+
+/**
+ * A portable snapshot of item states that can be restored later, also on another openHAB instance.
+ */
+export type Scene = {
+  name?: string;
+  createdAt: string;
+  items: SceneItem[];
+};
+
+/**
+ * What restoring a scene does with one item.
+ */
+export type RestoreStep = {
+  item: string;
+  state: string;
+  currentState?: string;
+  action: 'restore' | 'unchanged' | 'skipped';
+  /** How the state is restored, only set for restored items */
+  mode?: 'command' | 'state';
+  reason?: string;
+};
+
+const UNSET_STATES = ['NULL', 'UNDEF'];
+
+/** Item types that only accept RefreshType commands, so their state can only be restored with a state update */
+const READ_ONLY_TYPES = ['Contact', 'Image', 'Call'];
+
+/**
+ * Creates a scene from items as returned by GET /rest/items.
+ */
+export function createScene(items: Array<{ name: string; type?: string; state?: string }>, name?: string): Scene {
+  return {
+    ...(name ? { name } : {}),
+    createdAt: new Date().toISOString(),
+    items: items.map((item) => ({
+      name: item.name,
+      ...(item.type ? { type: item.type } : {}),
+      state: item.state ?? 'NULL',
+    })),
+  };
+}
+
+/**
+ * Validates a scene object, e.g. one read back from a file or database.
+ * @throws Error describing what is missing
+ */
+export function parseScene(value: unknown): Scene {
+  const scene = value as Partial<Scene> | null;
+  if (!scene || typeof scene !== 'object' || !Array.isArray(scene.items)) {
+    throw new Error('expected an object with an "items" array as created by Snapshot States');
+  }
+  scene.items.forEach((item, index) => {
+    if (!item || typeof item.name !== 'string' || !item.name || item.state === undefined || item.state === null) {
+      throw new Error(`item ${index} needs a name and a state`);
+    }
+  });
+  return {
+    ...(scene.name ? { name: scene.name } : {}),
+    createdAt: scene.createdAt ?? '',
+    items: scene.items.map((item) => ({ ...item, state: String(item.state) })),
+  };
+}
+
+/**
+ * Compares the scene with the current states and decides per item whether it has to be restored.
+ * Items that no longer exist, are not set in the scene (NULL/UNDEF cannot be sent as commands) or are
+ * groups (commands would be forwarded to all members) are skipped. Items that do not accept commands,
+ * like Contact items, are restored with a state update.
+ * @param currentStates Current state by item name
+ * @param mode Whether the scene is replayed as commands or state updates
+ */
+export function planRestore(
+  scene: Scene,
+  currentStates: Map<string, string>,
+  mode: 'command' | 'state',
+): RestoreStep[] {
+  return scene.items.map((item) => {
+    const currentState = currentStates.get(item.name);
+    if (currentState === undefined) {
+      return { item: item.name, state: item.state, action: 'skipped', reason: 'item does not exist' };
+    }
+    const step = { item: item.name, state: item.state, currentState };
+    if (statesMatch(item.state, currentState)) {
+      return { ...step, action: 'unchanged' };
+    }
+    if (mode === 'command' && UNSET_STATES.includes(item.state.toUpperCase())) {
+      return { ...step, action: 'skipped', reason: `${item.state} cannot be sent as command` };
+    }
+    if (mode === 'command' && item.type === 'Group') {
+      return { ...step, action: 'skipped', reason: 'commands to groups are forwarded to all members' };
+    }
+    const isReadOnly = item.type !== undefined && READ_ONLY_TYPES.includes(item.type);
+    return { ...step, action: 'restore', mode: isReadOnly ? 'state' : mode };
+  });
+}
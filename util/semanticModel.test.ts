@@ -0,0 +1,134 @@
+import {
+  buildSemanticModel,
+  buildSemanticTree,
+  describeSemanticNode,
+  querySemanticModel,
+} from './semanticModel';
+
+const semantic = (value: string, config: Record<string, string> = {}) => ({ semantics: { value, config } });
+
+const model = buildSemanticModel([
+  { name: 'gFirstFloor', label: 'First Floor', type: 'Group', metadata: semantic('Location_Indoor_Floor_FirstFloor') },
+  {
+    name: 'gKitchen',
+    label: 'Kitchen',
+    type: 'Group',
+    metadata: semantic('Location_Indoor_Room_Kitchen', { isPartOf: 'gFirstFloor' }),
+  },
+  {
+    name: 'gKitchenLamp',
+    label: 'Kitchen Lamp',
+    type: 'Group',
+    metadata: semantic('Equipment_LightSource_Lightbulb', { hasLocation: 'gKitchen' }),
+  },
+  {
+    name: 'KitchenLamp_Power',
+    label: 'Power',
+    type: 'Switch',
+    state: 'ON',
+    metadata: semantic('Point_Control_Switch', { isPointOf: 'gKitchenLamp', relatesTo: 'Property_Light' }),
+  },
+  {
+    name: 'Kitchen_Temperature',
+    label: 'Temperature',
+    type: 'Number:Temperature',
+    state: '21.5 °C',
+    metadata: semantic('Point_Measurement', { hasLocation: 'gKitchen', relatesTo: 'Property_Temperature' }),
+  },
+  {
+    name: 'Outside_Temperature',
+    label: 'Outside',
+    type: 'Number:Temperature',
+    state: '8 °C',
+    metadata: semantic('Point_Measurement', { relatesTo: 'Property_Temperature' }),
+  },
+  { name: 'Unrelated', type: 'String', metadata: {} },
+]);
+
+describe('querySemanticModel', () => {
+  it('should find points by class, property and location including parent locations', () => {
+    const names = (query: Parameters<typeof querySemanticModel>[1]) =>
+      querySemanticModel(model, query).map((node) => node.name);
+    expect(names({ kind: 'Point', semanticType: 'Measurement', property: 'Temperature', location: 'Kitchen' })).toEqual([
+      'Kitchen_Temperature',
+    ]);
+    expect(names({ kind: 'Point', property: 'Temperature' })).toEqual(['Kitchen_Temperature', 'Outside_Temperature']);
+    expect(names({ kind: 'Equipment', semanticType: 'Lightbulb', location: 'First Floor' })).toEqual(['gKitchenLamp']);
+    expect(names({ location: 'gFirstFloor' })).toEqual([
+      'gKitchen',
+      'gKitchenLamp',
+      'KitchenLamp_Power',
+      'Kitchen_Temperature',
+    ]);
+  });
+});
+
+describe('describeSemanticNode', () => {
+  it('should resolve the location through the equipment', () => {
+    expect(describeSemanticNode(model, model.nodes.get('KitchenLamp_Power')!)).toEqual({
+      name: 'KitchenLamp_Power',
+      label: 'Power',
+      type: 'Switch',
+      state: 'ON',
+      kind: 'Point',
+      semanticType: 'Point_Control_Switch',
+      property: 'Property_Light',
+      location: { name: 'gKitchen', label: 'Kitchen' },
+      locationPath: ['First Floor', 'Kitchen'],
+      equipment: { name: 'gKitchenLamp', label: 'Kitchen Lamp' },
+    });
+  });
+});
+
+describe('buildSemanticTree', () => {
+  it('should nest locations, equipment and points', () => {
+    const tree = buildSemanticTree(model);
+    expect(tree.equipment).toEqual([]);
+    expect((tree.points as Array<{ name: string }>).map((point) => point.name)).toEqual(['Outside_Temperature']);
+    expect(tree.locations).toEqual([
+      {
+        name: 'gFirstFloor',
+        label: 'First Floor',
+        semanticType: 'Location_Indoor_Floor_FirstFloor',
+        locations: [
+          {
+            name: 'gKitchen',
+            label: 'Kitchen',
+            semanticType: 'Location_Indoor_Room_Kitchen',
+            locations: [],
+            equipment: [
+              {
+                name: 'gKitchenLamp',
+                label: 'Kitchen Lamp',
+                semanticType: 'Equipment_LightSource_Lightbulb',
+                equipment: [],
+                points: [
+                  {
+                    name: 'KitchenLamp_Power',
+                    label: 'Power',
+                    semanticType: 'Point_Control_Switch',
+                    type: 'Switch',
+                    state: 'ON',
+                    property: 'Property_Light',
+                  },
+                ],
+              },
+            ],
+            points: [
+              {
+                name: 'Kitchen_Temperature',
+                label: 'Temperature',
+                semanticType: 'Point_Measurement',
+                type: 'Number:Temperature',
+                state: '21.5 °C',
+                property: 'Property_Temperature',
+              },
+            ],
+          },
+        ],
+        equipment: [],
+        points: [],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,200 @@
+import type { IDataObject } from 'n8n-workflow';
+
+export type SemanticKind = 'Location' | 'Equipment' | 'Point';
+
+/**
+ * An item of the semantic model, as derived from its `semantics` metadata.
+ */
+export interface SemanticNode {
+  name: string;
+  label: string;
+  type: string;
+  state?: string;
+  kind: SemanticKind;
+  /** Semantic class, e.g. Location_Indoor_Room_Kitchen */
+  semanticType: string;
+  /** Property of a point, e.g. Property_Temperature */
+  property?: string;
+  /** Location the item is part of or located in */
+  location?: string;
+  /** Equipment the item is part of or a point of */
+  equipment?: string;
+}
+
+export interface SemanticModel {
+  nodes: Map<string, SemanticNode>;
+}
+
+/**
+ * Criteria to find items in the semantic model. Empty criteria match everything.
+ */
+export interface SemanticQuery {
+  kind?: SemanticKind;
+  /** Semantic class or one of its parents, e.g. Measurement, Lightbulb or Room */
+  semanticType?: string;
+  /** Property of points, e.g. Temperature */
+  property?: string;
+  /** Name or label of a location, including all locations inside it */
+  location?: string;
+}
+
+const KINDS: SemanticKind[] = ['Location', 'Equipment', 'Point'];
+
+/**
+ * Builds the semantic model from items as returned by GET /rest/items?metadata=semantics. Items without semantic
+ * class are ignored.
+ */
+export function buildSemanticModel(items: IDataObject[]): SemanticModel {
+  const nodes = new Map<string, SemanticNode>();
+  for (const item of items) {
+    const semantics = (item.metadata as IDataObject | undefined)?.semantics as IDataObject | undefined;
+    const semanticType = typeof semantics?.value === 'string' ? semantics.value : '';
+    const kind = KINDS.find((candidate) => semanticType.startsWith(candidate));
+    if (!kind) {
+      continue;
+    }
+    const config = (semantics?.config as IDataObject | undefined) ?? {};
+    const node: SemanticNode = {
+      name: item.name as string,
+      label: (item.label as string | undefined) ?? '',
+      type: item.type as string,
+      kind,
+      semanticType,
+    };
+    if (item.state !== undefined) node.state = item.state as string;
+    if (config.relatesTo) node.property = config.relatesTo as string;
+    // Locations are part of locations, equipment has a location, points have a location or are a point of equipment
+    if (kind === 'Location' && config.isPartOf) node.location = config.isPartOf as string;
+    if (kind !== 'Location' && config.hasLocation) node.location = config.hasLocation as string;
+    if (kind === 'Equipment' && config.isPartOf) node.equipment = config.isPartOf as string;
+    if (kind === 'Point' && config.isPointOf) node.equipment = config.isPointOf as string;
+    nodes.set(node.name, node);
+  }
+  return { nodes };
+}
+
+/**
+ * Returns the locations of an item from the outermost to the innermost, following equipment to its location.
+ */
+export function getLocationPath(model: SemanticModel, name: string): SemanticNode[] {
+  const path: SemanticNode[] = [];
+  const visited = new Set<string>();
+  let current = model.nodes.get(name);
+  // Walk up through equipment until a location is found
+  while (current && current.kind !== 'Location' && !current.location && current.equipment && !visited.has(current.name)) {
+    visited.add(current.name);
+    current = model.nodes.get(current.equipment);
+  }
+  let locationName = current?.kind === 'Location' && current.name !== name ? current.name : current?.location;
+  while (locationName && !visited.has(locationName)) {
+    visited.add(locationName);
+    const location = model.nodes.get(locationName);
+    if (!location) break;
+    path.unshift(location);
+    locationName = location.location;
+  }
+  return path;
+}
+
+/**
+ * Returns the equipment an item belongs to directly.
+ */
+export function getEquipment(model: SemanticModel, name: string): SemanticNode | undefined {
+  const equipment = model.nodes.get(name)?.equipment;
+  return equipment ? model.nodes.get(equipment) : undefined;
+}
+
+const matchesTag = (semanticType: string | undefined, tag: string) =>
+  semanticType !== undefined &&
+  semanticType
+    .split('_')
+    .some((segment) => segment.toLowerCase() === tag.replace(/^(Location|Equipment|Point|Property)_/i, '').toLowerCase());
+
+/**
+ * Finds the items matching all criteria of the query.
+ */
+export function querySemanticModel(model: SemanticModel, query: SemanticQuery): SemanticNode[] {
+  const location = query.location?.trim().toLowerCase();
+  return [...model.nodes.values()].filter((node) => {
+    if (query.kind && node.kind !== query.kind) return false;
+    if (query.semanticType && !matchesTag(node.semanticType, query.semanticType)) return false;
+    if (query.property && !matchesTag(node.property, query.property)) return false;
+    if (location) {
+      const path = getLocationPath(model, node.name);
+      return path.some((entry) => entry.name.toLowerCase() === location || entry.label.toLowerCase() === location);
+    }
+    return true;
+  });
+}
+
+/**
+ * Describes an item with its resolved location and equipment.
+ */
+export function describeSemanticNode(model: SemanticModel, node: SemanticNode): IDataObject {
+  const path = getLocationPath(model, node.name);
+  const equipment = getEquipment(model, node.name);
+  const location = path[path.length - 1];
+  return {
+    name: node.name,
+    label: node.label,
+    type: node.type,
+    ...(node.state !== undefined ? { state: node.state } : {}),
+    kind: node.kind,
+    semanticType: node.semanticType,
+    ...(node.property ? { property: node.property } : {}),
+    location: location ? { name: location.name, label: location.label } : null,
+    locationPath: path.map((entry) => entry.label || entry.name),
+    equipment: equipment ? { name: equipment.name, label: equipment.label } : null,
+  };
+}
+
+/**
+ * Builds the location tree with the equipment and points inside each location. Equipment and points without
+ * location are returned at the top level.
+ */
+export function buildSemanticTree(model: SemanticModel): IDataObject {
+  const children = new Map<string, SemanticNode[]>();
+  const roots: SemanticNode[] = [];
+  for (const node of model.nodes.values()) {
+    // Points and sub-equipment are listed under their equipment, everything else under its location
+    const parent = node.kind !== 'Location' && node.equipment && model.nodes.has(node.equipment)
+      ? node.equipment
+      : node.location && model.nodes.has(node.location)
+      ? node.location
+      : undefined;
+    if (parent) {
+      children.set(parent, [...(children.get(parent) ?? []), node]);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const visited = new Set<string>();
+  const toTree = (node: SemanticNode): IDataObject => {
+    visited.add(node.name);
+    const nested = (children.get(node.name) ?? []).filter((child) => !visited.has(child.name));
+    const entry: IDataObject = {
+      name: node.name,
+      label: node.label,
+      semanticType: node.semanticType,
+    };
+    if (node.kind === 'Point') {
+      entry.type = node.type;
+      if (node.state !== undefined) entry.state = node.state;
+      if (node.property) entry.property = node.property;
+    }
+    const byKind = (kind: SemanticKind) => nested.filter((child) => child.kind === kind).map(toTree);
+    if (node.kind === 'Location') entry.locations = byKind('Location');
+    if (node.kind !== 'Point') {
+      entry.equipment = byKind('Equipment');
+      entry.points = byKind('Point');
+    }
+    return entry;
+  };
+
+  return {
+    locations: roots.filter((node) => node.kind === 'Location').map(toTree),
+    equipment: roots.filter((node) => node.kind === 'Equipment').map(toTree),
+    points: roots.filter((node) => node.kind === 'Point').map(toTree),
+  };
+}
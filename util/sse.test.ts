@@ -0,0 +1,60 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { EventSourceClient } from './sse';
+
+describe('EventSourceClient', () => {
+  let server: http.Server;
+  let port: number;
+  let handler: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => handler(req, res));
+    await new Promise<void>((resolve) => server.listen(0, () => resolve()));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should parse events split across chunks', (done) => {
+    let headers: http.IncomingHttpHeaders = {};
+    handler = (req, res) => {
+      headers = req.headers;
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(': keep-alive\n\nevent: alive\ndata: {}\n\ndata: {"topic":');
+      setTimeout(() => res.end('"a"}\r\ndata: second line\r\n\r\n'), 20);
+    };
+
+    const messages: Array<[string, string]> = [];
+    const client = new EventSourceClient(`http://localhost:${port}/rest/events`, { headers: { Authorization: 'Bearer t' } });
+    client.on('message', (data: string, eventName: string) => messages.push([eventName, data]));
+    client.on('close', () => {
+      expect(headers.authorization).toBe('Bearer t');
+      expect(headers.accept).toBe('text/event-stream');
+      expect(messages).toEqual([
+        ['alive', '{}'],
+        ['message', '{"topic":"a"}\nsecond line'],
+      ]);
+      done();
+    });
+    client.connect();
+  });
+
+  it('should emit an error for responses that are not an event stream', (done) => {
+    handler = (_req, res) => {
+      res.writeHead(404, { 'Content-Type': 'text/html' });
+      res.end('Not found');
+    };
+
+    const client = new EventSourceClient(`http://localhost:${port}/rest/events`);
+    const opened = jest.fn();
+    client.on('open', opened);
+    client.on('error', (error: Error) => {
+      expect(error.message).toContain('404');
+      expect(opened).not.toHaveBeenCalled();
+      done();
+    });
+    client.connect();
+  });
+});
@@ -0,0 +1,128 @@
+import * as http from 'http';
+import * as https from 'https';
+import { EventEmitter } from 'events';
+import { URL } from 'url';
+
+export interface EventSourceClientOptions {
+  /** Additional headers to send with the request (e.g., Authorization) */
+  headers?: Record<string, string>;
+  /** Set to true to allow self-signed or invalid TLS certificates on https:// connections */
+  allowInsecure?: boolean;
+}
+
+/**
+ * Minimal Server-Sent Events client (https://html.spec.whatwg.org/multipage/server-sent-events.html).
+ * Emits 'open', 'message' (data, event name), 'error' and 'close', like `WebSocketClient`.
+ * Reconnection is left to the caller.
+ */
+export class EventSourceClient extends EventEmitter {
+  private request: http.ClientRequest | null = null;
+  private buffer = '';
+  private data: string[] = [];
+  private eventName = '';
+  private closed = false;
+
+  constructor(private url: string, private options: EventSourceClientOptions = {}) {
+    super();
+  }
+
+  public connect(): void {
+    const parsedUrl = new URL(this.url);
+    const isHttps = parsedUrl.protocol === 'https:';
+
+    const requestOptions: https.RequestOptions = {
+      method: 'GET',
+      headers: {
+        Accept: 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        ...this.options.headers,
+      },
+    };
+    if (isHttps && this.options.allowInsecure !== undefined) {
+      requestOptions.rejectUnauthorized = !this.options.allowInsecure;
+    }
+
+    const request = (isHttps ? https : http).request(parsedUrl, requestOptions, (response) => {
+      const contentType = response.headers['content-type'] ?? '';
+      if (response.statusCode !== 200 || !contentType.startsWith('text/event-stream')) {
+        this.emit(
+          'error',
+          new Error(`Server responded with: ${response.statusCode} ${response.statusMessage ?? ''} (${contentType})`.trim()),
+        );
+        response.resume();
+        request.destroy();
+        return;
+      }
+
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => this.handleData(chunk));
+      response.on('end', () => this.cleanup(true));
+      this.emit('open');
+    });
+    this.request = request;
+
+    request.on('error', (err) => this.emit('error', err));
+    request.on('close', () => this.cleanup(true));
+    request.end();
+  }
+
+  public close(shouldEmitClose = true): void {
+    this.cleanup(shouldEmitClose);
+  }
+
+  private cleanup(shouldEmitClose: boolean): void {
+    if (this.closed) return;
+    this.closed = true;
+
+    if (this.request) {
+      this.request.destroy();
+      this.request = null;
+    }
+
+    if (shouldEmitClose) {
+      this.emit('close');
+    }
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    // Lines end with CRLF, LF or CR; the last, possibly incomplete line stays in the buffer
+    const lines = this.buffer.split(/\r\n|\n|\r(?!$)/);
+    this.buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line === '') {
+        this.dispatch();
+        continue;
+      }
+      if (line.startsWith(':')) {
+        continue; // Comment, e.g. keep-alive
+      }
+
+      const colonIndex = line.indexOf(':');
+      const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+      let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+      if (value.startsWith(' ')) {
+        value = value.slice(1);
+      }
+
+      if (field === 'data') {
+        this.data.push(value);
+      } else if (field === 'event') {
+        this.eventName = value;
+      }
+    }
+  }
+
+  private dispatch(): void {
+    const data = this.data;
+    const eventName = this.eventName || 'message';
+    this.data = [];
+    this.eventName = '';
+
+    if (data.length > 0) {
+      this.emit('message', data.join('\n'), eventName);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { decodeState, formatState, parseNumericState, statesMatch } from './state';
+
+describe('parseNumericState', () => {
+  it('should parse plain decimal states', () => {
+    expect(parseNumericState('42')).toEqual({ value: 42, unit: null });
+    expect(parseNumericState('-3.25')).toEqual({ value: -3.25, unit: null });
+    expect(parseNumericState('1.2E3')).toEqual({ value: 1200, unit: null });
+  });
+
+  it('should parse quantity states with units', () => {
+    expect(parseNumericState('21.5 °C')).toEqual({ value: 21.5, unit: '°C' });
+    expect(parseNumericState('1500 W')).toEqual({ value: 1500, unit: 'W' });
+    expect(parseNumericState('3.6 m/s')).toEqual({ value: 3.6, unit: 'm/s' });
+    expect(parseNumericState('50%')).toEqual({ value: 50, unit: '%' });
+  });
+
+  it('should return null for non-numeric states', () => {
+    expect(parseNumericState('ON')).toBeNull();
+    expect(parseNumericState('NULL')).toBeNull();
+    expect(parseNumericState('UNDEF')).toBeNull();
+    expect(parseNumericState('120,100,50')).toBeNull();
+    expect(parseNumericState('2026-01-01T10:00:00.000+0100')).toBeNull();
+    expect(parseNumericState('')).toBeNull();
+  });
+});
+
+describe('decodeState', () => {
+  it('should decode quantities and numbers', () => {
+    expect(decodeState('Number:Temperature', '21.5 °C')).toEqual({ value: 21.5, unit: '°C' });
+    expect(decodeState('Number', '42')).toEqual({ value: 42, unit: null });
+    expect(decodeState('Dimmer', '75')).toEqual({ value: 75 });
+  });
+
+  it('should decode colors', () => {
+    expect(decodeState('Color', '120,100,50')).toEqual({
+      value: 50,
+      hue: 120,
+      saturation: 100,
+      brightness: 50,
+      rgb: { r: 0, g: 128, b: 0 },
+      hex: '#008000',
+    });
+  });
+
+  it('should decode date times, switches and contacts', () => {
+    expect(decodeState('DateTime', '2026-01-01T10:00:00.000+0100')).toEqual({ value: '2026-01-01T09:00:00.000Z' });
+    expect(decodeState('Switch', 'ON')).toEqual({ value: true });
+    expect(decodeState('Contact', 'CLOSED')).toEqual({ value: false });
+    expect(decodeState('Location', '52.5,13.4')).toEqual({
+      value: '52.5,13.4',
+      latitude: 52.5,
+      longitude: 13.4,
+      altitude: null,
+    });
+  });
+
+  it('should decode NULL and UNDEF to null', () => {
+    expect(decodeState('Switch', 'NULL')).toEqual({ value: null });
+    expect(decodeState('Number:Power', 'UNDEF')).toEqual({ value: null });
+  });
+});
+
+describe('formatState', () => {
+  it('should format numbers with units', () => {
+    expect(formatState('%.1f %unit%', '21.53 °C')).toBe('21.5 °C');
+    expect(formatState('%d %%', '42.7')).toBe('43 %');
+    expect(formatState('%,.2f €', '1234.5')).toBe('1,234.50 €');
+    expect(formatState('%03d', '7')).toBe('007');
+  });
+
+  it('should format strings and dates', () => {
+    expect(formatState('Mode: %s', 'AUTO')).toBe('Mode: AUTO');
+    expect(formatState('%1$tH:%1$tM', '2026-01-01T10:05:00.000+0100')).toBe('10:05');
+    expect(formatState('%1$ta, %1$td.%1$tm.%1$tY', '2026-01-01T10:05:00.000+0100')).toBe('Thu, 01.01.2026');
+  });
+
+  it('should return null for patterns that cannot be applied', () => {
+    expect(formatState('MAP(de.map):%s', 'ON')).toBeNull();
+    expect(formatState('%.1f', 'ON')).toBeNull();
+  });
+});
+
+describe('statesMatch', () => {
+  it('should compare keywords case-insensitively', () => {
+    expect(statesMatch('on', 'ON')).toBe(true);
+    expect(statesMatch('ON', 'OFF')).toBe(false);
+  });
+
+  it('should compare numbers by value and unit', () => {
+    expect(statesMatch('50', '50.0')).toBe(true);
+    expect(statesMatch('20 °C', '68 °F')).toBe(true);
+    expect(statesMatch('21 °C', '21.5 °C')).toBe(false);
+    expect(statesMatch('21 °C', '21 W')).toBe(false);
+  });
+
+  it('should compare HSB colors per component', () => {
+    expect(statesMatch('0,100,100', '0.2,99.8,100')).toBe(true);
+    expect(statesMatch('0,100,100', '120,100,100')).toBe(false);
+  });
+});
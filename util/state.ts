@@ -0,0 +1,244 @@
+import { convertUnit } from './units';
+
+/**
+ * A numeric item state, optionally carrying the unit of a QuantityType (e.g. `21.5 °C`).
+ */
+export interface NumericState {
+  value: number;
+  unit: string | null;
+}
+
+// A decimal number, optionally followed by a unit separated by whitespace (or directly attached, e.g. `50%`).
+const NUMERIC_STATE_PATTERN = /^([-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?)(?:\s+(\S.*)|([^\d\s,.+-].*))?$/;
+
+/**
+ * Parses a DecimalType, PercentType or QuantityType state string.
+ * @param state The raw state as returned by the REST API
+ * @returns The number and unit, or null if the state is not numeric (e.g. `ON`, `NULL`, `UNDEF`, HSB values)
+ */
+export function parseNumericState(state: string): NumericState | null {
+  const match = NUMERIC_STATE_PATTERN.exec(state.trim());
+  if (!match) {
+    return null;
+  }
+  const value = Number(match[1]);
+  if (!Number.isFinite(value)) {
+    return null;
+  }
+  const unit = (match[2] ?? match[3] ?? '').trim();
+  return { value, unit: unit || null };
+}
+
+/**
+ * Converts RGB (0-255 per channel) into openHAB HSB (hue 0-360, saturation and brightness 0-100).
+ */
+export function rgbToHsb(red: number, green: number, blue: number): [number, number, number] {
+  const r = red / 255;
+  const g = green / 255;
+  const b = blue / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+
+  let hue = 0;
+  if (delta > 0) {
+    if (max === r) {
+      hue = 60 * (((g - b) / delta) % 6);
+    } else if (max === g) {
+      hue = 60 * ((b - r) / delta + 2);
+    } else {
+      hue = 60 * ((r - g) / delta + 4);
+    }
+  }
+  if (hue < 0) {
+    hue += 360;
+  }
+  const saturation = max === 0 ? 0 : (delta / max) * 100;
+  return [hue, saturation, max * 100];
+}
+
+/**
+ * Converts openHAB HSB (hue 0-360, saturation and brightness 0-100) into RGB (0-255 per channel).
+ */
+export function hsbToRgb(hue: number, saturation: number, brightness: number): [number, number, number] {
+  const s = saturation / 100;
+  const v = brightness / 100;
+  const c = v * s;
+  const h = (((hue % 360) + 360) % 360) / 60;
+  const x = c * (1 - Math.abs((h % 2) - 1));
+  const m = v - c;
+  const [r, g, b] =
+    h < 1 ? [c, x, 0] : h < 2 ? [x, c, 0] : h < 3 ? [0, c, x] : h < 4 ? [0, x, c] : h < 5 ? [x, 0, c] : [c, 0, x];
+  return [Math.round((r + m) * 255), Math.round((g + m) * 255), Math.round((b + m) * 255)];
+}
+
+/**
+ * Decodes a raw item state into typed values depending on the item type:
+ * - QuantityType/DecimalType: `value` (number) and `unit`
+ * - Dimmer, Rollershutter: `value` in percent
+ * - Color: `hue`, `saturation`, `brightness`, `rgb` and `hex`; `value` is the brightness
+ * - DateTime: `value` as ISO timestamp
+ * - Switch: `value` true for ON; Contact: `value` true for OPEN
+ * - Location: `latitude`, `longitude` and `altitude`
+ * - NULL/UNDEF: `value` null for every type
+ * @param type The item type, e.g. `Number:Temperature` (for groups, pass the group's base type)
+ * @param state The raw state string
+ */
+export function decodeState(type: string, state: string): Record<string, unknown> {
+  if (state === 'NULL' || state === 'UNDEF') {
+    return { value: null };
+  }
+  const baseType = type.split(':')[0];
+  switch (baseType) {
+    case 'Number':
+    case 'Dimmer':
+    case 'Rollershutter': {
+      const numeric = parseNumericState(state);
+      if (!numeric) return { value: state };
+      return baseType === 'Number' ? { value: numeric.value, unit: numeric.unit } : { value: numeric.value };
+    }
+    case 'Color': {
+      const parts = state.split(',').map(Number);
+      if (parts.length !== 3 || parts.some((part) => !Number.isFinite(part))) return { value: state };
+      const [hue, saturation, brightness] = parts;
+      const rgb = hsbToRgb(hue, saturation, brightness);
+      return {
+        value: brightness,
+        hue,
+        saturation,
+        brightness,
+        rgb: { r: rgb[0], g: rgb[1], b: rgb[2] },
+        hex: `#${rgb.map((channel) => channel.toString(16).padStart(2, '0')).join('')}`,
+      };
+    }
+    case 'DateTime': {
+      const date = new Date(state.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+      return { value: Number.isNaN(date.getTime()) ? state : date.toISOString() };
+    }
+    case 'Switch':
+      return state === 'ON' || state === 'OFF' ? { value: state === 'ON' } : { value: state };
+    case 'Contact':
+      return state === 'OPEN' || state === 'CLOSED' ? { value: state === 'OPEN' } : { value: state };
+    case 'Location': {
+      const [latitude, longitude, altitude] = state.split(',').map(Number);
+      return { value: state, latitude, longitude, altitude: altitude ?? null };
+    }
+    default:
+      return { value: state };
+  }
+}
+
+// Local date/time fields of an openHAB DateTime state, kept in the state's own time zone.
+const DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/;
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function formatDateField(conversion: string, state: string): string | null {
+  const match = DATE_TIME_PATTERN.exec(state);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  const weekday = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day))).getUTCDay();
+  switch (conversion) {
+    case 'Y': return year;
+    case 'y': return year.slice(2);
+    case 'm': return month;
+    case 'd': return day;
+    case 'e': return String(Number(day));
+    case 'H': return hour;
+    case 'M': return minute;
+    case 'S': return second;
+    case 'B': return MONTHS[Number(month) - 1];
+    case 'b': return MONTHS[Number(month) - 1].slice(0, 3);
+    case 'A': return WEEKDAYS[weekday];
+    case 'a': return WEEKDAYS[weekday].slice(0, 3);
+    case 'R': return `${hour}:${minute}`;
+    case 'T': return `${hour}:${minute}:${second}`;
+    case 'F': return `${year}-${month}-${day}`;
+    case 'D': return `${month}/${day}/${year.slice(2)}`;
+    default: return null;
+  }
+}
+
+/**
+ * Formats a raw state with a state description pattern (a subset of Java's String.format as used by openHAB):
+ * `%s`, `%d`, `%.1f`, `%unit%`, `%%` and date conversions such as `%1$tH:%1$tM`.
+ * Transformation patterns (e.g. `MAP(de.map):%s`) cannot be applied client-side and return null.
+ * @returns The formatted state, or null if the pattern cannot be applied to the state
+ */
+export function formatState(pattern: string, state: string): string | null {
+  if (/^[A-Z]+\(.*\):/.test(pattern)) {
+    return null;
+  }
+  if (state === 'NULL' || state === 'UNDEF') {
+    return state;
+  }
+  const numeric = parseNumericState(state);
+  let failed = false;
+
+  const formatted = pattern.replace(
+    /%unit%|%%|%(?:\d+\$)?([-+ 0,]*)(\d+)?(?:\.(\d+))?(t[A-Za-z]|[sdf])/g,
+    (token, flags: string | undefined, width: string | undefined, precision: string | undefined, conversion: string | undefined) => {
+      if (token === '%%') return '%';
+      if (token === '%unit%') return numeric?.unit ?? '';
+      let result: string | null;
+      if (conversion === 's') {
+        result = numeric?.unit ? String(numeric.value) : state;
+      } else if (conversion === 'd' || conversion === 'f') {
+        if (!numeric) {
+          result = null;
+        } else {
+          const digits = conversion === 'd' ? 0 : precision !== undefined ? Number(precision) : 6;
+          result = numeric.value.toFixed(digits);
+          if (flags?.includes(',')) {
+            const [integer, fraction] = result.split('.');
+            result = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',') + (fraction ? `.${fraction}` : '');
+          }
+        }
+      } else {
+        result = formatDateField(conversion!.slice(1), state);
+      }
+      if (result === null) {
+        failed = true;
+        return token;
+      }
+      const padding = width ? Number(width) - result.length : 0;
+      if (padding > 0) {
+        result = flags?.includes('-')
+          ? result + ' '.repeat(padding)
+          : (flags?.includes('0') && conversion !== 's' ? '0' : ' ').repeat(padding) + result;
+      }
+      return result;
+    },
+  );
+  return failed ? null : formatted.trim();
+}
+
+/**
+ * Compares an expected state with an actual state: case-insensitive for keywords (ON, OPEN, ...), by value for
+ * numbers (converting units, so `20 °C` matches `68 °F`) and per component for HSB colors.
+ */
+export function statesMatch(expected: string, actual: string): boolean {
+  const expectedTrimmed = expected.trim();
+  const actualTrimmed = actual.trim();
+  if (expectedTrimmed.toUpperCase() === actualTrimmed.toUpperCase()) {
+    return true;
+  }
+
+  const expectedNumeric = parseNumericState(expectedTrimmed);
+  const actualNumeric = parseNumericState(actualTrimmed);
+  if (expectedNumeric && actualNumeric) {
+    let value: number | null = expectedNumeric.value;
+    if (expectedNumeric.unit && actualNumeric.unit && expectedNumeric.unit !== actualNumeric.unit) {
+      value = convertUnit(expectedNumeric.value, expectedNumeric.unit, actualNumeric.unit);
+    }
+    return value !== null && Math.abs(value - actualNumeric.value) <= 1e-6 * Math.max(1, Math.abs(value));
+  }
+
+  const expectedParts = expectedTrimmed.split(',').map(Number);
+  const actualParts = actualTrimmed.split(',').map(Number);
+  return (
+    expectedParts.length === 3 &&
+    actualParts.length === 3 &&
+    expectedParts.every((part, index) => Number.isFinite(part) && Math.abs(part - actualParts[index]) <= 0.5)
+  );
+}
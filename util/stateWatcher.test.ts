@@ -0,0 +1,92 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import { AddressInfo } from 'net';
+import { watchItemState } from './stateWatcher';
+import type { EventWebSocketConfig } from './openHABApi';
+
+describe('watchItemState', () => {
+  let server: WebSocketServer;
+  let config: EventWebSocketConfig;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => {
+      server = new WebSocketServer({ port: 0 }, () => resolve());
+    });
+    config = {
+      url: `ws://localhost:${(server.address() as AddressInfo).port}/ws/events`,
+      protocols: ['org.openhab.ws.protocol.default'],
+      allowInsecure: false,
+      headers: {},
+      clientId: 'io.n8n:test:openhab',
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const sendStateChanged = (ws: WebSocket, itemName: string, value: string) => {
+    ws.send(
+      JSON.stringify({
+        type: 'ItemStateChangedEvent',
+        topic: `openhab/items/${itemName}/statechanged`,
+        payload: JSON.stringify({ type: 'OnOff', value, oldType: 'OnOff', oldValue: 'OFF' }),
+      }),
+    );
+  };
+
+  it('should resolve after the filter is confirmed and report matching states', async () => {
+    const received: string[] = [];
+    server.once('connection', (ws) => {
+      ws.on('message', (data) => {
+        const event = JSON.parse(data.toString());
+        received.push(event.topic);
+        if (event.topic === 'openhab/websocket/filter/topic') {
+          expect(JSON.parse(event.payload)).toEqual(['openhab/items/Kitchen_Light/statechanged']);
+          ws.send(JSON.stringify({ type: 'WebSocketEvent', topic: event.topic, payload: event.payload }));
+          setTimeout(() => sendStateChanged(ws, 'Kitchen_Light', 'ON'), 20);
+        }
+      });
+    });
+
+    const watcher = await watchItemState(config, 'Kitchen_Light', 1000);
+    expect(received).toEqual(['openhab/websocket/filter/type', 'openhab/websocket/filter/topic']);
+    await expect(watcher.waitFor((state) => state === 'ON', 1000)).resolves.toBe('ON');
+    watcher.close();
+  });
+
+  it('should resolve null when no matching state arrives in time', async () => {
+    server.once('connection', (ws) => {
+      ws.on('message', (data) => {
+        const event = JSON.parse(data.toString());
+        if (event.topic === 'openhab/websocket/filter/topic') {
+          ws.send(JSON.stringify({ type: 'WebSocketEvent', topic: event.topic, payload: event.payload }));
+          sendStateChanged(ws, 'Kitchen_Light', 'OFF');
+        }
+      });
+    });
+
+    const watcher = await watchItemState(config, 'Kitchen_Light', 1000);
+    await expect(watcher.waitFor((state) => state === 'ON', 100)).resolves.toBeNull();
+    watcher.close();
+  });
+
+  it('should reject waiting callers when the connection closes', async () => {
+    server.once('connection', (ws) => {
+      ws.on('message', (data) => {
+        const event = JSON.parse(data.toString());
+        if (event.topic === 'openhab/websocket/filter/topic') {
+          ws.send(JSON.stringify({ type: 'WebSocketEvent', topic: event.topic, payload: event.payload }));
+          setTimeout(() => ws.terminate(), 20);
+        }
+      });
+    });
+
+    const watcher = await watchItemState(config, 'Kitchen_Light', 1000);
+    await expect(watcher.waitFor((state) => state === 'ON', 1000)).rejects.toThrow('closed unexpectedly');
+    watcher.close();
+  });
+
+  it('should reject when the connection fails', async () => {
+    await expect(watchItemState({ ...config, url: 'ws://localhost:1/ws/events' }, 'Kitchen_Light', 1000)).rejects.toThrow();
+  });
+});
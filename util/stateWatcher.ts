@@ -0,0 +1,160 @@
+import type { EventWebSocketConfig } from './openHABApi';
+import { WebSocketClient } from './ws';
+
+/**
+ * Receives the state changes of one item from the openHAB event WebSocket.
+ */
+export interface ItemStateWatcher {
+  /**
+   * Waits for a state change whose new state matches the predicate. State changes received since the watcher was
+   * opened are considered as well.
+   * @returns The matching state, or null if the timeout elapsed first
+   */
+  waitFor(predicate: (state: string) => boolean, timeoutMs: number): Promise<string | null>;
+  close(): void;
+}
+
+const HEARTBEAT_INTERVAL_MS = 5000;
+
+interface Waiter {
+  predicate: (state: string) => boolean;
+  resolve: (state: string | null) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Opens the event WebSocket, subscribes to ItemStateChangedEvents of the item and resolves once openHAB has
+ * confirmed the topic filter, so that no state change caused by a subsequently sent command is missed.
+ * @param connectTimeoutMs Time to wait for the connection and filter confirmation
+ */
+export function watchItemState(
+  config: EventWebSocketConfig,
+  itemName: string,
+  connectTimeoutMs: number,
+): Promise<ItemStateWatcher> {
+  return new Promise((resolveWatcher, rejectWatcher) => {
+    const ws = new WebSocketClient(config.url, {
+      protocols: config.protocols,
+      allowInsecure: config.allowInsecure,
+      headers: config.headers,
+    });
+    const states: string[] = [];
+    let waiter: Waiter | null = null;
+    let failure: Error | null = null;
+    let isReady = false;
+    let isClosing = false;
+    let heartbeatTimer: NodeJS.Timeout | null = null;
+
+    const sendWebSocketEvent = (topic: string, payload: string) => {
+      ws.send(JSON.stringify({ type: 'WebSocketEvent', topic, payload, id: config.clientId }));
+    };
+
+    const stopHeartbeat = () => {
+      if (heartbeatTimer) {
+        clearInterval(heartbeatTimer);
+        heartbeatTimer = null;
+      }
+    };
+
+    const close = () => {
+      isClosing = true;
+      clearTimeout(connectTimer);
+      stopHeartbeat();
+      ws.close(false);
+    };
+
+    const fail = (error: Error) => {
+      if (isClosing) {
+        return;
+      }
+      // The connection is unusable, so stop sending heartbeats on it
+      stopHeartbeat();
+      failure = error;
+      if (!isReady) {
+        close();
+        rejectWatcher(error);
+      } else if (waiter) {
+        clearTimeout(waiter.timer);
+        waiter.reject(error);
+        waiter = null;
+      }
+    };
+
+    const connectTimer = setTimeout(
+      () => fail(new Error(`Timed out connecting to the openHAB event WebSocket after ${connectTimeoutMs} ms.`)),
+      connectTimeoutMs,
+    );
+
+    const watcher: ItemStateWatcher = {
+      waitFor(predicate, timeoutMs) {
+        const buffered = states.find(predicate);
+        if (buffered !== undefined) {
+          return Promise.resolve(buffered);
+        }
+        if (failure) {
+          return Promise.reject(failure);
+        }
+        return new Promise((resolve, reject) => {
+          const timer = setTimeout(() => {
+            waiter = null;
+            resolve(null);
+          }, timeoutMs);
+          waiter = { predicate, resolve, reject, timer };
+        });
+      },
+      close,
+    };
+
+    ws.on('open', () => {
+      sendWebSocketEvent('openhab/websocket/filter/type', JSON.stringify(['ItemStateChangedEvent']));
+      sendWebSocketEvent('openhab/websocket/filter/topic', JSON.stringify([`openhab/items/${itemName}/statechanged`]));
+      heartbeatTimer = setInterval(() => {
+        try {
+          sendWebSocketEvent('openhab/websocket/heartbeat', 'PING');
+        } catch (err) {
+          fail(err as Error);
+        }
+      }, HEARTBEAT_INTERVAL_MS);
+    });
+
+    ws.on('message', (data: string | Buffer) => {
+      let event: { type?: string; topic?: string; payload?: string };
+      try {
+        event = JSON.parse(Buffer.isBuffer(data) ? data.toString('utf8') : data);
+      } catch {
+        return;
+      }
+
+      if (event.type === 'WebSocketEvent') {
+        if (event.topic === 'openhab/websocket/filter/topic' && !isReady) {
+          isReady = true;
+          clearTimeout(connectTimer);
+          resolveWatcher(watcher);
+        }
+        return;
+      }
+      if (event.type !== 'ItemStateChangedEvent' || event.topic !== `openhab/items/${itemName}/statechanged`) {
+        return;
+      }
+
+      let state: string;
+      try {
+        state = String((JSON.parse(event.payload ?? '') as { value: unknown }).value);
+      } catch {
+        return;
+      }
+      states.push(state);
+      if (waiter && waiter.predicate(state)) {
+        clearTimeout(waiter.timer);
+        waiter.resolve(state);
+        waiter = null;
+      }
+    });
+
+    ws.on('error', (err: Error) => fail(new Error(err.message || 'Unknown WebSocket error')));
+    ws.on('close', () => fail(new Error('openHAB event WebSocket closed unexpectedly.')));
+
+    ws.connect();
+  });
+}
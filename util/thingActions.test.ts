@@ -0,0 +1,46 @@
+import { convertActionInputs, ThingActionInput } from './thingActions';
+
+const inputs: ThingActionInput[] = [
+  { name: 'recipient', type: 'java.lang.String', required: true },
+  { name: 'retries', type: 'int' },
+  { name: 'volume', type: 'java.lang.Double' },
+  { name: 'retain', type: 'java.lang.Boolean' },
+  { name: 'temperature', type: 'QuantityType<Temperature>' },
+];
+
+describe('convertActionInputs', () => {
+  it('should convert values to the declared input types', () => {
+    expect(
+      convertActionInputs(
+        { recipient: 'me@example.com', retries: '3', volume: '0.5', retain: 'TRUE', temperature: '21 °C' },
+        inputs,
+      ),
+    ).toEqual({
+      inputs: { recipient: 'me@example.com', retries: 3, volume: 0.5, retain: true, temperature: '21 °C' },
+      errors: [],
+    });
+  });
+
+  it('should accept numbers and booleans from expressions', () => {
+    expect(convertActionInputs({ recipient: 'me@example.com', retries: 3, volume: 0.5, retain: false }, inputs)).toEqual({
+      inputs: { recipient: 'me@example.com', retries: 3, volume: 0.5, retain: false },
+      errors: [],
+    });
+  });
+
+  it('should report invalid and missing inputs', () => {
+    expect(convertActionInputs({ retries: '1.5', volume: 'loud', retain: 'yes' }, inputs).errors).toEqual([
+      '"retries" must be an integer',
+      '"volume" must be a number',
+      '"retain" must be true or false',
+      '"recipient" is required',
+    ]);
+  });
+
+  it('should pass undeclared inputs as entered', () => {
+    expect(convertActionInputs({ recipient: 'me@example.com', foo: '1' }, inputs)).toEqual({
+      inputs: { recipient: 'me@example.com', foo: '1' },
+      errors: [],
+    });
+  });
+});
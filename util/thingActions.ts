@@ -0,0 +1,71 @@
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * An input of a thing action, as listed by GET /rest/actions/{thingUID}.
+ */
+export interface ThingActionInput extends IDataObject {
+  name: string;
+  type: string;
+  required?: boolean;
+}
+
+const INTEGER_TYPES = ['int', 'long', 'short', 'byte', 'java.lang.Integer', 'java.lang.Long', 'java.lang.Short', 'java.lang.Byte'];
+const DECIMAL_TYPES = [
+  'double',
+  'float',
+  'java.lang.Double',
+  'java.lang.Float',
+  'java.lang.Number',
+  'java.math.BigDecimal',
+  'org.openhab.core.library.types.DecimalType',
+];
+const BOOLEAN_TYPES = ['boolean', 'java.lang.Boolean'];
+
+/**
+ * Converts input values entered as text to the types declared by the action (numbers, booleans). Values may also
+ * already be numbers or booleans when they come from an expression.
+ * Values of other types (e.g. QuantityType, ZonedDateTime) and of inputs the action does not declare are sent as
+ * entered and converted by openHAB.
+ * @param values Input values keyed by input name
+ * @param inputs The input descriptions of the action
+ */
+export function convertActionInputs(
+  values: Record<string, unknown>,
+  inputs: ThingActionInput[],
+): { inputs: IDataObject; errors: string[] } {
+  const byName = new Map(inputs.map((input) => [input.name, input]));
+  const converted: IDataObject = {};
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(values)) {
+    const input = byName.get(name);
+    if (!input) {
+      converted[name] = value as IDataObject[string];
+    } else if (INTEGER_TYPES.includes(input.type) || DECIMAL_TYPES.includes(input.type)) {
+      const text = String(value ?? '').trim();
+      const numeric = typeof value === 'number' ? value : text === '' ? NaN : Number(text);
+      if (!Number.isFinite(numeric) || (INTEGER_TYPES.includes(input.type) && !Number.isInteger(numeric))) {
+        errors.push(`"${name}" must be ${INTEGER_TYPES.includes(input.type) ? 'an integer' : 'a number'}`);
+        continue;
+      }
+      converted[name] = numeric;
+    } else if (BOOLEAN_TYPES.includes(input.type)) {
+      const normalized = String(value ?? '').trim().toLowerCase();
+      if (normalized !== 'true' && normalized !== 'false') {
+        errors.push(`"${name}" must be true or false`);
+        continue;
+      }
+      converted[name] = normalized === 'true';
+    } else {
+      converted[name] = value as IDataObject[string];
+    }
+  }
+
+  for (const input of inputs) {
+    if (input.required && converted[input.name] === undefined && !errors.some((error) => error.startsWith(`"${input.name}"`))) {
+      errors.push(`"${input.name}" is required`);
+    }
+  }
+
+  return { inputs: converted, errors };
+}
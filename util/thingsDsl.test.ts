@@ -0,0 +1,164 @@
+import { mergeThingDefinition, parseThingsDsl, renderThingsDsl } from './thingsDsl';
+
+describe('parseThingsDsl', () => {
+  it('should parse bridges with nested things and channels', () => {
+    const things = parseThingsDsl(`
+      Bridge mqtt:broker:home "Broker" [ host="192.168.1.10", port=1883, secure=false ] {
+        Thing topic lamp "Lamp" @ "Kitchen" {
+          Channels:
+            Type switch : power "Power" [ stateTopic="lamp/state", commandTopic="lamp/set" ]
+            Type number:brightness [ stateTopic="lamp/brightness", min=0, max=100 ]
+        }
+      }
+      Thing astro:sun:local "Sun" [ geolocation="52.5,13.4", interval=300 ]
+    `);
+    expect(things).toEqual([
+      {
+        UID: 'mqtt:broker:home',
+        thingTypeUID: 'mqtt:broker',
+        label: 'Broker',
+        configuration: { host: '192.168.1.10', port: 1883, secure: false },
+        channels: [],
+      },
+      {
+        UID: 'mqtt:topic:home:lamp',
+        thingTypeUID: 'mqtt:topic',
+        bridgeUID: 'mqtt:broker:home',
+        label: 'Lamp',
+        location: 'Kitchen',
+        configuration: {},
+        channels: [
+          {
+            uid: 'mqtt:topic:home:lamp:power',
+            id: 'power',
+            channelTypeUID: 'mqtt:switch',
+            label: 'Power',
+            configuration: { stateTopic: 'lamp/state', commandTopic: 'lamp/set' },
+          },
+          {
+            uid: 'mqtt:topic:home:lamp:brightness',
+            id: 'brightness',
+            channelTypeUID: 'mqtt:number',
+            configuration: { stateTopic: 'lamp/brightness', min: 0, max: 100 },
+          },
+        ],
+      },
+      {
+        UID: 'astro:sun:local',
+        thingTypeUID: 'astro:sun',
+        label: 'Sun',
+        configuration: { geolocation: '52.5,13.4', interval: 300 },
+        channels: [],
+      },
+    ]);
+  });
+
+  it('should parse bridge references and numeric thing types', () => {
+    const [bulb, plug] = parseThingsDsl(`
+      Bridge hue:bridge:main [ ipAddress="192.168.1.20" ] { Thing 0210 bulb1 "Bulb" }
+      Thing mqtt:topic:plug "Plug" (mqtt:broker:home)
+    `).slice(1);
+    expect(bulb).toMatchObject({ UID: 'hue:0210:main:bulb1', thingTypeUID: 'hue:0210', bridgeUID: 'hue:bridge:main' });
+    expect(plug).toMatchObject({ UID: 'mqtt:topic:plug', bridgeUID: 'mqtt:broker:home' });
+  });
+
+  it('should report syntax errors with the line number', () => {
+    expect(() => parseThingsDsl('Thing astro:sun:local\nItem x')).toThrow('Expected "Thing" or "Bridge" but found "Item" in line 2');
+    expect(() => parseThingsDsl('Thing sun local')).toThrow('Expected a thing UID');
+  });
+});
+
+describe('renderThingsDsl', () => {
+  it('should render things that can be parsed again', () => {
+    const things = [
+      {
+        UID: 'mqtt:broker:home',
+        thingTypeUID: 'mqtt:broker',
+        label: 'Broker',
+        configuration: { host: '192.168.1.10', port: 1883 },
+        channels: [],
+      },
+      {
+        UID: 'mqtt:topic:home:lamp',
+        thingTypeUID: 'mqtt:topic',
+        bridgeUID: 'mqtt:broker:home',
+        label: 'Lamp',
+        location: 'Kitchen',
+        configuration: {},
+        statusInfo: { status: 'ONLINE' },
+        channels: [
+          {
+            uid: 'mqtt:topic:home:lamp:power',
+            id: 'power',
+            channelTypeUID: 'mqtt:switch',
+            label: 'Power',
+            configuration: { stateTopic: 'lamp/state' },
+            linkedItems: ['Lamp_Power'],
+          },
+          { uid: 'mqtt:topic:home:lamp:rssi', id: 'rssi', channelTypeUID: 'system:signal-strength', configuration: {} },
+        ],
+      },
+    ];
+    const text = renderThingsDsl(things);
+    expect(text).toBe(
+      'Bridge mqtt:broker:home "Broker" [host="192.168.1.10", port=1883]\n\n' +
+        'Thing mqtt:topic:home:lamp "Lamp" (mqtt:broker:home) @ "Kitchen" {\n' +
+        '    Channels:\n' +
+        '        Type switch : power "Power" [stateTopic="lamp/state"]\n' +
+        '}\n',
+    );
+    expect(parseThingsDsl(text)[1]).toEqual({
+      UID: 'mqtt:topic:home:lamp',
+      thingTypeUID: 'mqtt:topic',
+      bridgeUID: 'mqtt:broker:home',
+      label: 'Lamp',
+      location: 'Kitchen',
+      configuration: {},
+      channels: [
+        {
+          uid: 'mqtt:topic:home:lamp:power',
+          id: 'power',
+          channelTypeUID: 'mqtt:switch',
+          label: 'Power',
+          configuration: { stateTopic: 'lamp/state' },
+        },
+      ],
+    });
+  });
+});
+
+describe('mergeThingDefinition', () => {
+  it('should keep configuration and channels that are not in the file', () => {
+    expect(
+      mergeThingDefinition(
+        {
+          UID: 'mqtt:topic:lamp',
+          label: 'Old',
+          configuration: { availabilityTopic: 'lamp/lwt', qos: 1 },
+          channels: [
+            { uid: 'mqtt:topic:lamp:power', kind: 'STATE', configuration: { stateTopic: 'old', on: 'ON' } },
+            { uid: 'mqtt:topic:lamp:rssi', configuration: {} },
+          ],
+        },
+        {
+          UID: 'mqtt:topic:lamp',
+          label: 'Lamp',
+          configuration: { qos: 0 },
+          channels: [
+            { uid: 'mqtt:topic:lamp:power', configuration: { stateTopic: 'lamp/state' } },
+            { uid: 'mqtt:topic:lamp:color', configuration: { stateTopic: 'lamp/color' } },
+          ],
+        },
+      ),
+    ).toEqual({
+      UID: 'mqtt:topic:lamp',
+      label: 'Lamp',
+      configuration: { availabilityTopic: 'lamp/lwt', qos: 0 },
+      channels: [
+        { uid: 'mqtt:topic:lamp:power', kind: 'STATE', configuration: { stateTopic: 'lamp/state', on: 'ON' } },
+        { uid: 'mqtt:topic:lamp:rssi', configuration: {} },
+        { uid: 'mqtt:topic:lamp:color', configuration: { stateTopic: 'lamp/color' } },
+      ],
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import type { IDataObject } from 'n8n-workflow';
+import { DslReader, quoteDsl, renderDslConfiguration, tokenizeDsl } from './dslTokenizer';
+
+const isName = (token: { kind: string } | undefined) => token !== undefined && (token.kind === 'id' || token.kind === 'number');
+
+/**
+ * Reads a `typeId : channelId` pair, written with or without spaces around the colon.
+ */
+function readChannelId(reader: DslReader): [string, string] {
+  let value = reader.next().value;
+  for (let i = 0; i < 2 && !/^[^:]+:[^:]+$/.test(value); i++) {
+    value += reader.next().value;
+  }
+  const [typeId, channelId] = value.split(':');
+  if (!typeId || !channelId) {
+    throw new Error(`Expected "<type> : <channel id>" but found "${value}"`);
+  }
+  return [typeId, channelId];
+}
+
+function parseChannels(reader: DslReader, thing: IDataObject, binding: string): void {
+  const channels = thing.channels as IDataObject[];
+  while (reader.at('Type') || reader.at('State') || reader.at('Trigger')) {
+    const kind = reader.next().value;
+    const [typeId, channelId] = readChannelId(reader);
+    const channel: IDataObject = {
+      uid: `${thing.UID as string}:${channelId}`,
+      id: channelId,
+    };
+    if (kind === 'Type') {
+      channel.channelTypeUID = `${binding}:${typeId}`;
+    } else {
+      channel.kind = kind.toUpperCase();
+      channel.itemType = typeId;
+    }
+    if (reader.peek()?.kind === 'string') {
+      channel.label = reader.next().value;
+    }
+    channel.configuration = reader.configuration();
+    channels.push(channel);
+  }
+}
+
+function parseThing(reader: DslReader, things: IDataObject[], parentBridge?: IDataObject): void {
+  const keyword = reader.next().value;
+  const first = reader.next();
+  let uid: string;
+  let thingTypeUID: string;
+  const segments = first.value.split(':');
+
+  if (segments.length >= 3) {
+    uid = first.value;
+    thingTypeUID = segments.slice(0, 2).join(':');
+  } else if (parentBridge && segments.length === 1 && isName(reader.peek())) {
+    // Short form inside a bridge: Thing <typeId> <id>, the UID contains the bridge ID segments
+    const id = reader.next().value;
+    const bridgeSegments = (parentBridge.UID as string).split(':');
+    thingTypeUID = `${bridgeSegments[0]}:${first.value}`;
+    uid = [thingTypeUID, ...bridgeSegments.slice(2), id].join(':');
+  } else {
+    throw new Error(`Expected a thing UID (binding:type:id) but found "${first.value}" in line ${first.line}`);
+  }
+
+  const thing: IDataObject = { UID: uid, thingTypeUID, channels: [] };
+  if (parentBridge) {
+    thing.bridgeUID = parentBridge.UID;
+  }
+  if (reader.peek()?.kind === 'string') {
+    thing.label = reader.next().value;
+  }
+  if (reader.accept('(')) {
+    thing.bridgeUID = reader.next().value;
+    reader.expect(')');
+  }
+  if (reader.accept('@')) {
+    thing.location = reader.expectKind('string', 'a location').value;
+  }
+  thing.configuration = reader.configuration();
+  things.push(thing);
+
+  if (reader.accept('{')) {
+    const binding = thingTypeUID.split(':')[0];
+    while (!reader.accept('}')) {
+      if (reader.at('Channels:') || reader.at('Channels')) {
+        if (!reader.accept('Channels:')) {
+          reader.next();
+          reader.expect(':');
+        }
+        parseChannels(reader, thing, binding);
+      } else if (keyword === 'Bridge' && (reader.at('Thing') || reader.at('Bridge'))) {
+        parseThing(reader, things, thing);
+      } else {
+        const token = reader.next();
+        throw new Error(`Unexpected "${token.value}" in line ${token.line}`);
+      }
+    }
+  }
+}
+
+/**
+ * Parses the thing and bridge definitions of a `.things` file into payloads for POST /rest/things, including
+ * things nested in bridges and channels declared in `Channels:` blocks.
+ * @throws Error with the line number of the first syntax error
+ */
+export function parseThingsDsl(text: string): IDataObject[] {
+  const reader = new DslReader(tokenizeDsl(text));
+  const things: IDataObject[] = [];
+  while (!reader.done) {
+    if (!reader.at('Thing') && !reader.at('Bridge')) {
+      const token = reader.next();
+      throw new Error(`Expected "Thing" or "Bridge" but found "${token.value}" in line ${token.line}`);
+    }
+    parseThing(reader, things);
+  }
+  return things;
+}
+
+/**
+ * Renders things as returned by GET /rest/things as `.things` text. Every thing is written with its full UID and
+ * a reference to its bridge. Only channels with a configuration are written, as all others are created from the
+ * thing type.
+ */
+export function renderThingsDsl(things: IDataObject[]): string {
+  const bridgeUids = new Set(things.map((thing) => thing.bridgeUID).filter(Boolean));
+  const blocks = things.map((thing) => {
+    const parts = [bridgeUids.has(thing.UID) ? 'Bridge' : 'Thing', String(thing.UID)];
+    if (thing.label) parts.push(quoteDsl(String(thing.label)));
+    if (thing.bridgeUID) parts.push(`(${String(thing.bridgeUID)})`);
+    if (thing.location) parts.push(`@ ${quoteDsl(String(thing.location))}`);
+    const configuration = renderDslConfiguration(thing.configuration as IDataObject);
+    if (configuration) parts.push(configuration);
+
+    const binding = String(thing.thingTypeUID ?? thing.UID).split(':')[0];
+    const channels = ((thing.channels as IDataObject[] | undefined) ?? [])
+      .filter((channel) => Object.keys((channel.configuration as IDataObject | undefined) ?? {}).length > 0)
+      .map((channel) => {
+        const channelType = String(channel.channelTypeUID ?? '');
+        const type = channelType.startsWith(`${binding}:`)
+          ? `Type ${channelType.slice(binding.length + 1)}`
+          : `${channel.kind === 'TRIGGER' ? 'Trigger' : 'State'} ${String(channel.itemType ?? 'String')}`;
+        return [
+          `        ${type} : ${String(channel.id ?? String(channel.uid).split(':').pop())}`,
+          channel.label ? quoteDsl(String(channel.label)) : '',
+          renderDslConfiguration(channel.configuration as IDataObject),
+        ]
+          .filter(Boolean)
+          .join(' ');
+      });
+    if (channels.length > 0) {
+      parts.push(`{\n    Channels:\n${channels.join('\n')}\n}`);
+    }
+    return parts.join(' ');
+  });
+  return blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '';
+}
+
+/**
+ * Applies a thing parsed from a `.things` file to the thing on the server. Configuration parameters and channels
+ * that are not in the file are kept, as the file only lists what differs from the thing type defaults.
+ */
+export function mergeThingDefinition(current: IDataObject, parsed: IDataObject): IDataObject {
+  const parsedChannels = (parsed.channels as IDataObject[] | undefined) ?? [];
+  const currentChannels = (current.channels as IDataObject[] | undefined) ?? [];
+  const currentUids = new Set(currentChannels.map((channel) => channel.uid));
+  return {
+    ...current,
+    ...parsed,
+    configuration: { ...((current.configuration as IDataObject | undefined) ?? {}), ...(parsed.configuration as IDataObject) },
+    channels: [
+      ...currentChannels.map((channel) => {
+        const override = parsedChannels.find((parsedChannel) => parsedChannel.uid === channel.uid);
+        return override
+          ? {
+              ...channel,
+              ...override,
+              configuration: {
+                ...((channel.configuration as IDataObject | undefined) ?? {}),
+                ...((override.configuration as IDataObject | undefined) ?? {}),
+              },
+            }
+          : channel;
+      }),
+      ...parsedChannels.filter((channel) => !currentUids.has(channel.uid)),
+    ],
+  };
+}
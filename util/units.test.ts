@@ -0,0 +1,29 @@
+import { convertUnit } from './units';
+
+describe('convertUnit', () => {
+  it('should return the value unchanged for identical units', () => {
+    expect(convertUnit(21.5, '°C', '°C')).toBe(21.5);
+  });
+
+  it('should convert between SI prefixes', () => {
+    expect(convertUnit(1.5, 'kW', 'W')).toBeCloseTo(1500);
+    expect(convertUnit(2500, 'Wh', 'kWh')).toBeCloseTo(2.5);
+    expect(convertUnit(1013, 'hPa', 'mbar')).toBeCloseTo(1013);
+  });
+
+  it('should convert temperatures', () => {
+    expect(convertUnit(68, '°F', '°C')).toBeCloseTo(20);
+    expect(convertUnit(0, '°C', 'K')).toBeCloseTo(273.15);
+  });
+
+  it('should convert between units with different factors', () => {
+    expect(convertUnit(36, 'km/h', 'm/s')).toBeCloseTo(10);
+    expect(convertUnit(1, 'kWh', 'J')).toBeCloseTo(3600000);
+  });
+
+  it('should return null for incompatible or unknown units', () => {
+    expect(convertUnit(1, 'W', 'Wh')).toBeNull();
+    expect(convertUnit(1, '°C', 'W')).toBeNull();
+    expect(convertUnit(1, 'foo', 'W')).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * A unit known to the converter: its physical dimension and the factor to the dimension's reference unit.
+ */
+interface UnitDefinition {
+  dimension: string;
+  factor: number;
+  /** Whether SI prefixes (k, M, m, ...) may be applied to the unit */
+  prefixable: boolean;
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  // Power and energy
+  W: { dimension: 'power', factor: 1, prefixable: true },
+  VA: { dimension: 'apparentPower', factor: 1, prefixable: true },
+  var: { dimension: 'reactivePower', factor: 1, prefixable: true },
+  J: { dimension: 'energy', factor: 1, prefixable: true },
+  Wh: { dimension: 'energy', factor: 3600, prefixable: true },
+  // Electricity
+  V: { dimension: 'voltage', factor: 1, prefixable: true },
+  A: { dimension: 'current', factor: 1, prefixable: true },
+  Hz: { dimension: 'frequency', factor: 1, prefixable: true },
+  // Length, speed
+  m: { dimension: 'length', factor: 1, prefixable: true },
+  in: { dimension: 'length', factor: 0.0254, prefixable: false },
+  ft: { dimension: 'length', factor: 0.3048, prefixable: false },
+  mi: { dimension: 'length', factor: 1609.344, prefixable: false },
+  'm/s': { dimension: 'speed', factor: 1, prefixable: false },
+  'km/h': { dimension: 'speed', factor: 1 / 3.6, prefixable: false },
+  mph: { dimension: 'speed', factor: 0.44704, prefixable: false },
+  kn: { dimension: 'speed', factor: 1852 / 3600, prefixable: false },
+  // Pressure
+  Pa: { dimension: 'pressure', factor: 1, prefixable: true },
+  bar: { dimension: 'pressure', factor: 100000, prefixable: true },
+  psi: { dimension: 'pressure', factor: 6894.757293168, prefixable: false },
+  inHg: { dimension: 'pressure', factor: 3386.388640341, prefixable: false },
+  // Mass, volume
+  g: { dimension: 'mass', factor: 1, prefixable: true },
+  lb: { dimension: 'mass', factor: 453.59237, prefixable: false },
+  l: { dimension: 'volume', factor: 0.001, prefixable: true },
+  L: { dimension: 'volume', factor: 0.001, prefixable: true },
+  'm³': { dimension: 'volume', factor: 1, prefixable: false },
+  // Time
+  s: { dimension: 'time', factor: 1, prefixable: true },
+  min: { dimension: 'time', factor: 60, prefixable: false },
+  h: { dimension: 'time', factor: 3600, prefixable: false },
+  d: { dimension: 'time', factor: 86400, prefixable: false },
+  // Dimensionless
+  '%': { dimension: 'ratio', factor: 0.01, prefixable: false },
+  one: { dimension: 'ratio', factor: 1, prefixable: false },
+  ppm: { dimension: 'ratio', factor: 1e-6, prefixable: false },
+  // Illuminance
+  lx: { dimension: 'illuminance', factor: 1, prefixable: true },
+};
+
+const SI_PREFIXES: Record<string, number> = {
+  G: 1e9,
+  M: 1e6,
+  k: 1e3,
+  h: 1e2,
+  da: 1e1,
+  d: 1e-1,
+  c: 1e-2,
+  m: 1e-3,
+  µ: 1e-6,
+  u: 1e-6,
+  n: 1e-9,
+};
+
+const TEMPERATURE_UNITS = ['°C', '°F', 'K'];
+
+function resolveUnit(unit: string): UnitDefinition | null {
+  const exact = UNITS[unit];
+  if (exact) {
+    return exact;
+  }
+  for (const [prefix, prefixFactor] of Object.entries(SI_PREFIXES)) {
+    if (!unit.startsWith(prefix)) {
+      continue;
+    }
+    const base = UNITS[unit.slice(prefix.length)];
+    if (base && base.prefixable) {
+      return { dimension: base.dimension, factor: base.factor * prefixFactor, prefixable: false };
+    }
+  }
+  return null;
+}
+
+function toKelvin(value: number, unit: string): number {
+  if (unit === '°C') return value + 273.15;
+  if (unit === '°F') return (value - 32) * (5 / 9) + 273.15;
+  return value;
+}
+
+function fromKelvin(value: number, unit: string): number {
+  if (unit === '°C') return value - 273.15;
+  if (unit === '°F') return (value - 273.15) * (9 / 5) + 32;
+  return value;
+}
+
+/**
+ * Converts a value between two units of the same dimension (e.g. kW to W, °F to °C).
+ * @returns The converted value, or null if one of the units is unknown or the dimensions differ
+ */
+export function convertUnit(value: number, fromUnit: string, toUnit: string): number | null {
+  if (fromUnit === toUnit) {
+    return value;
+  }
+  if (TEMPERATURE_UNITS.includes(fromUnit) || TEMPERATURE_UNITS.includes(toUnit)) {
+    if (!TEMPERATURE_UNITS.includes(fromUnit) || !TEMPERATURE_UNITS.includes(toUnit)) {
+      return null;
+    }
+    return fromKelvin(toKelvin(value, fromUnit), toUnit);
+  }
+  const from = resolveUnit(fromUnit);
+  const to = resolveUnit(toUnit);
+  if (!from || !to || from.dimension !== to.dimension) {
+    return null;
+  }
+  return (value * from.factor) / to.factor;
+}
@@ -0,0 +1,58 @@
+import { createWatchdog } from './watchdog';
+
+describe('createWatchdog', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('reports the connection as dead after the given number of silent intervals', () => {
+    const onDead = jest.fn();
+    const onTick = jest.fn();
+    createWatchdog(1000, 3, onDead, onTick);
+
+    jest.advanceTimersByTime(2999);
+    expect(onTick).toHaveBeenCalledTimes(2);
+    expect(onDead).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(onDead).toHaveBeenCalledWith(3000);
+    expect(onTick).toHaveBeenCalledTimes(2);
+
+    // The watchdog stops after reporting once
+    jest.advanceTimersByTime(10000);
+    expect(onDead).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts counting again on every message', () => {
+    const onDead = jest.fn();
+    const watchdog = createWatchdog(1000, 2, onDead);
+
+    for (let i = 0; i < 10; i++) {
+      jest.advanceTimersByTime(1500);
+      watchdog.touch();
+    }
+    expect(onDead).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(2000);
+    expect(onDead).toHaveBeenCalledTimes(1);
+  });
+
+  it('never reports a dead connection when maxMissed is 0', () => {
+    const onDead = jest.fn();
+    const onTick = jest.fn();
+    createWatchdog(1000, 0, onDead, onTick);
+
+    jest.advanceTimersByTime(60000);
+    expect(onDead).not.toHaveBeenCalled();
+    expect(onTick).toHaveBeenCalledTimes(60);
+  });
+
+  it('does nothing after stop', () => {
+    const onDead = jest.fn();
+    const onTick = jest.fn();
+    createWatchdog(1000, 1, onDead, onTick).stop();
+
+    jest.advanceTimersByTime(5000);
+    expect(onDead).not.toHaveBeenCalled();
+    expect(onTick).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Detects a dead connection by the time since its last message.
+ */
+export interface Watchdog {
+  /** Records that a message arrived */
+  touch(): void;
+  /** Cancels the timer; onDead is not called anymore */
+  stop(): void;
+}
+
+/**
+ * Creates a watchdog that checks every interval how long the connection has been silent and calls `onDead` once
+ * (and stops) when nothing arrived for `maxMissed` intervals. The time of creation counts as the first message.
+ * @param maxMissed Number of silent intervals after which the connection is dead, 0 to never consider it dead
+ * @param onTick Called on every interval the connection is still alive, e.g. to send a heartbeat
+ */
+export function createWatchdog(
+  intervalMs: number,
+  maxMissed: number,
+  onDead: (silentMs: number) => void,
+  onTick?: () => void,
+): Watchdog {
+  let lastMessageAt = Date.now();
+  let timer: NodeJS.Timeout | null = setInterval(() => {
+    const silentMs = Date.now() - lastMessageAt;
+    if (maxMissed > 0 && silentMs >= maxMissed * intervalMs) {
+      stop();
+      onDead(silentMs);
+      return;
+    }
+    onTick?.();
+  }, intervalMs);
+
+  const stop = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  return {
+    touch() {
+      lastMessageAt = Date.now();
+    },
+    stop,
+  };
+}